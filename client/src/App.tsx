@@ -3,15 +3,25 @@ import { io, Socket } from 'socket.io-client';
 
 interface Session {
   sessionId: string;
-  pairCode: string;
+  /** Not sent to observers, who mustn't be able to pair the session */
+  pairCode: string | null;
   expiresAt: string;
   phoneNumber: string;
+  subscriptionToken: string;
+  role: 'owner' | 'observer';
 }
 
 interface DemoState {
   phase: 'waiting' | 'paired' | 'questions' | 'callback_preparing' | 'dialing' | 'connected' | 'completed';
   callerName: string | null;
   callerPhone: string | null;
+  pendingPhone: string | null;
+  /** Why the last callback number was refused, if it was */
+  callbackNotice: string | null;
+  /** Caller ID the callback went out from, and why it was picked */
+  callerId: { number: string; match: 'area_code' | 'state' | 'default'; reason: string } | null;
+  /** Warm transfer to a live rep, once the caller asks for one */
+  transfer: { repName: string | null; status: 'connecting' | 'connected' | 'failed'; message?: string } | null;
   vertical: string | null;
   verticalDisplay: string | null;
   pain: string | null;
@@ -21,6 +31,12 @@ interface DemoState {
   appointment: { date: string; time: string } | null;
 }
 
+interface CallbackRetry {
+  attempt: number;
+  maxAttempts: number;
+  retryAt: string;
+}
+
 interface EventLog {
   type: string;
   time: string;
@@ -41,6 +57,15 @@ function formatPhoneDisplay(phone: string): string {
   return phone;
 }
 
+// Same rule as normalizePhoneNumber on the server: 10-digit NANP, optional leading 1
+function isValidPhoneInput(input: string): boolean {
+  let digits = input.replace(/\D/g, '');
+  if (digits.length === 11 && digits[0] === '1') {
+    digits = digits.slice(1);
+  }
+  return /^[2-9]\d{2}[2-9]\d{6}$/.test(digits);
+}
+
 function formatVertical(vertical: string, displayName?: string | null): string {
   if (displayName) return displayName;
   const labels: Record<string, string> = {
@@ -63,6 +88,31 @@ function formatPain(pain: string, displayName?: string | null): string {
   return labels[pain] || pain.replace(/_/g, ' ');
 }
 
+// Digit codes read as one block; word codes ("river-maple") as separate words
+function PairCodeValue({ code }: { code: string }) {
+  if (!code.includes('-')) {
+    return <span className="code-value">{code}</span>;
+  }
+  return (
+    <span className="code-value words">
+      {code.split('-').map(word => (
+        <span key={word} className="code-word">{word}</span>
+      ))}
+    </span>
+  );
+}
+
+function TransferStatus({ transfer }: { transfer: NonNullable<DemoState['transfer']> }) {
+  const repName = transfer.repName || 'our team';
+  return (
+    <p className={`transfer-status ${transfer.status}`}>
+      {transfer.status === 'connecting' && `Connecting you to ${repName}…`}
+      {transfer.status === 'connected' && `Connected to ${repName}`}
+      {transfer.status === 'failed' && transfer.message}
+    </p>
+  );
+}
+
 function App() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -71,6 +121,10 @@ function App() {
     phase: 'waiting',
     callerName: null,
     callerPhone: null,
+    pendingPhone: null,
+    callbackNotice: null,
+    callerId: null,
+    transfer: null,
     vertical: null,
     verticalDisplay: null,
     pain: null,
@@ -81,7 +135,12 @@ function App() {
   });
   const [events, setEvents] = useState<EventLog[]>([]);
   const [timeLeft, setTimeLeft] = useState<number>(0);
-  const [dialerAnimation, setDialerAnimation] = useState<'idle' | 'dialing' | 'ringing' | 'connected'>('idle');
+  const [dialerAnimation, setDialerAnimation] = useState<'idle' | 'dialing' | 'ringing' | 'connected' | 'voicemail'>('idle');
+  const [callbackRetry, setCallbackRetry] = useState<CallbackRetry | null>(null);
+  const [retryCountdown, setRetryCountdown] = useState<number>(0);
+  const [callMeForm, setCallMeForm] = useState({ name: '', phoneNumber: '' });
+  const [callMeError, setCallMeError] = useState<string | null>(null);
+  const [callMeSubmitting, setCallMeSubmitting] = useState(false);
   const socketRef = useRef<Socket | null>(null);
 
   const addEvent = useCallback((type: string, data?: unknown) => {
@@ -94,23 +153,52 @@ function App() {
       setLoading(true);
       setError(null);
 
-      const response = await fetch('/api/session', {
-        method: 'POST',
-        credentials: 'include',
-      });
+      // Observer links look like /?observe=<sessionId>&token=<observer token>
+      const params = new URLSearchParams(window.location.search);
+      const observeId = params.get('observe');
+      const observeToken = params.get('token');
 
-      if (!response.ok) {
-        throw new Error('Failed to create session');
+      let data: Session;
+
+      if (observeId && observeToken) {
+        const response = await fetch(`/api/session/${encodeURIComponent(observeId)}`, {
+          headers: { Authorization: `Bearer ${observeToken}` },
+        });
+
+        if (!response.ok) {
+          throw new Error('This observer link is invalid or has expired');
+        }
+
+        const observed = await response.json();
+        data = {
+          sessionId: observed.id,
+          pairCode: null,
+          expiresAt: observed.expiresAt,
+          phoneNumber: observed.phoneNumber,
+          subscriptionToken: observeToken,
+          role: 'observer',
+        };
+      } else {
+        const response = await fetch('/api/session', {
+          method: 'POST',
+          credentials: 'include',
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error || 'Failed to create session');
+        }
+
+        data = { ...(await response.json()), role: 'owner' };
       }
 
-      const data: Session = await response.json();
       setSession(data);
 
       const expiresAt = new Date(data.expiresAt).getTime();
       const now = Date.now();
       setTimeLeft(Math.max(0, Math.floor((expiresAt - now) / 1000)));
 
-      addEvent('session_created', { code: data.pairCode });
+      addEvent('session_created', data.pairCode ? { code: data.pairCode } : undefined);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -122,6 +210,83 @@ function App() {
     createSession();
   }, [createSession]);
 
+  const shareObserverLink = useCallback(async () => {
+    if (!session) return;
+
+    try {
+      const response = await fetch(`/api/session/${session.sessionId}/observer-token`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to create observer link');
+      }
+
+      const { token } = await response.json();
+      const link = `${window.location.origin}/?observe=${session.sessionId}&token=${encodeURIComponent(token)}`;
+      await navigator.clipboard.writeText(link);
+      addEvent('observer_link_copied');
+    } catch (err) {
+      addEvent('observer_link_failed', { error: err instanceof Error ? err.message : String(err) });
+    }
+  }, [session, addEvent]);
+
+  const requestCallMe = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!session) return;
+
+    if (!isValidPhoneInput(callMeForm.phoneNumber)) {
+      setCallMeError('Enter a valid 10-digit US phone number');
+      return;
+    }
+
+    try {
+      setCallMeSubmitting(true);
+      setCallMeError(null);
+
+      const response = await fetch(`/api/session/${session.sessionId}/callback`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(callMeForm),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: 'Failed to request callback' }));
+        throw new Error(error);
+      }
+
+      setDemoState(prev => ({
+        ...prev,
+        callerName: callMeForm.name.trim() || prev.callerName,
+      }));
+      addEvent('callback_requested');
+    } catch (err) {
+      setCallMeError(err instanceof Error ? err.message : 'Failed to request callback');
+    } finally {
+      setCallMeSubmitting(false);
+    }
+  }, [session, callMeForm, addEvent]);
+
+  const sendCallbackAction = useCallback(async (action: 'retry-now' | 'cancel') => {
+    if (!session) return;
+
+    try {
+      const response = await fetch(`/api/session/${session.sessionId}/callback/${action}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(error);
+      }
+    } catch (err) {
+      addEvent('callback_action_failed', { action, error: err instanceof Error ? err.message : String(err) });
+    }
+  }, [session, addEvent]);
+
   useEffect(() => {
     if (!session?.sessionId) return;
 
@@ -129,11 +294,15 @@ function App() {
     socketRef.current = socket;
 
     socket.on('connect', () => {
-      socket.emit('subscribe', session.sessionId);
+      socket.emit('subscribe', { sessionId: session.sessionId, token: session.subscriptionToken });
       addEvent('websocket_connected');
     });
 
-    socket.on('paired', (data: { callerName: string }) => {
+    socket.on('error', (data: { message: string }) => {
+      addEvent('subscribe_failed', data);
+    });
+
+    socket.on('paired', (data: { callerName: string; codeMatch?: 'exact' | 'fuzzy' }) => {
       setDemoState(prev => ({
         ...prev,
         phase: 'paired',
@@ -142,12 +311,16 @@ function App() {
       addEvent('paired', data);
     });
 
+    socket.on('pair_conflict', (data: { phoneNumber: string }) => {
+      addEvent('pair_conflict', data);
+    });
+
     socket.on('vertical_selected', (data: { vertical: string; displayName?: string }) => {
       setDemoState(prev => ({
         ...prev,
         phase: 'questions',
         vertical: data.vertical,
-        verticalDisplay: data.displayName || data.vertical,
+        verticalDisplay: data.displayName || null,
       }));
       addEvent('vertical_selected', data);
     });
@@ -156,17 +329,54 @@ function App() {
       setDemoState(prev => ({
         ...prev,
         pain: data.pain,
-        painDisplay: data.displayName || data.pain,
+        painDisplay: data.displayName || null,
         showSpamImage: data.isSpam || false,
       }));
       addEvent('pain_selected', data);
     });
 
+    socket.on('callback_number_pending', (data: { phoneNumber: string }) => {
+      setDemoState(prev => ({
+        ...prev,
+        pendingPhone: data.phoneNumber,
+      }));
+      addEvent('callback_number_pending', data);
+    });
+
+    socket.on('callback_number_confirmed', (data: { phoneNumber: string }) => {
+      setDemoState(prev => ({
+        ...prev,
+        pendingPhone: null,
+        callerPhone: data.phoneNumber,
+      }));
+      addEvent('callback_number_confirmed', data);
+    });
+
+    socket.on('callback_blocked', (data: { phoneNumber: string; reason: string; message: string }) => {
+      setDemoState(prev => ({
+        ...prev,
+        pendingPhone: null,
+        callbackNotice: data.message,
+      }));
+      setDialerAnimation('idle');
+      addEvent('callback_blocked', data);
+    });
+
+    socket.on('callback_deferred', (data: { phoneNumber: string; reason: string; message: string; retryAt: string }) => {
+      setDemoState(prev => ({
+        ...prev,
+        callbackNotice: data.message,
+      }));
+      setDialerAnimation('idle');
+      addEvent('callback_deferred', data);
+    });
+
     socket.on('callback_preparing', (data: { phoneNumber: string }) => {
       setDemoState(prev => ({
         ...prev,
         phase: 'callback_preparing',
         callerPhone: data.phoneNumber,
+        callbackNotice: null,
       }));
       setDialerAnimation('idle');
       addEvent('callback_preparing', data);
@@ -177,11 +387,21 @@ function App() {
         ...prev,
         phase: 'dialing',
         callerPhone: data.phoneNumber,
+        callbackNotice: null,
       }));
       setDialerAnimation('dialing');
+      setCallbackRetry(null);
       addEvent('callback_dialing', data);
     });
 
+    socket.on('local_presence_selected', (data: { callerId: string; match: 'area_code' | 'state' | 'default'; reason: string }) => {
+      setDemoState(prev => ({
+        ...prev,
+        callerId: { number: data.callerId, match: data.match, reason: data.reason },
+      }));
+      addEvent('local_presence_selected', data);
+    });
+
     socket.on('callback_ringing', () => {
       setDialerAnimation('ringing');
       addEvent('callback_ringing');
@@ -196,11 +416,30 @@ function App() {
       addEvent('callback_answered', data);
     });
 
-    socket.on('callback_failed', (data: { status?: string; error?: string }) => {
+    socket.on('callback_voicemail', (data: { callId: string }) => {
+      setDemoState(prev => ({
+        ...prev,
+        callbackNotice: 'Reached voicemail - the dialer left a message automatically.',
+      }));
+      setDialerAnimation('voicemail');
+      addEvent('callback_voicemail', data);
+    });
+
+    socket.on('callback_failed', (data: { status?: string; reason?: string; error?: string }) => {
       setDialerAnimation('idle');
       addEvent('callback_failed', data);
     });
 
+    socket.on('callback_retry_scheduled', (data: CallbackRetry) => {
+      setCallbackRetry(data);
+      addEvent('callback_retry_scheduled', data);
+    });
+
+    socket.on('callback_cancelled', () => {
+      setCallbackRetry(null);
+      addEvent('callback_cancelled');
+    });
+
     socket.on('schedule_requested', () => {
       setDemoState(prev => ({
         ...prev,
@@ -229,6 +468,30 @@ function App() {
       addEvent('demo_completed');
     });
 
+    socket.on('transfer_started', (data: { repName: string }) => {
+      setDemoState(prev => ({
+        ...prev,
+        transfer: { repName: data.repName, status: 'connecting' },
+      }));
+      addEvent('transfer_started', data);
+    });
+
+    socket.on('transfer_connected', (data: { repName: string }) => {
+      setDemoState(prev => ({
+        ...prev,
+        transfer: { repName: data.repName, status: 'connected' },
+      }));
+      addEvent('transfer_connected', data);
+    });
+
+    socket.on('transfer_failed', (data: { repName?: string; reason: string; message: string }) => {
+      setDemoState(prev => ({
+        ...prev,
+        transfer: { repName: data.repName || null, status: 'failed', message: data.message },
+      }));
+      addEvent('transfer_failed', data);
+    });
+
     socket.on('disconnect', () => {
       addEvent('websocket_disconnected');
     });
@@ -237,7 +500,7 @@ function App() {
       socket.disconnect();
       socketRef.current = null;
     };
-  }, [session?.sessionId, addEvent]);
+  }, [session?.sessionId, session?.subscriptionToken, addEvent]);
 
   useEffect(() => {
     if (timeLeft <= 0 || demoState.phase !== 'waiting') return;
@@ -255,6 +518,19 @@ function App() {
     return () => clearInterval(timer);
   }, [timeLeft, demoState.phase]);
 
+  useEffect(() => {
+    if (!callbackRetry) return;
+
+    const update = () => {
+      const remaining = Math.ceil((new Date(callbackRetry.retryAt).getTime() - Date.now()) / 1000);
+      setRetryCountdown(Math.max(0, remaining));
+    };
+
+    update();
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [callbackRetry]);
+
   const formatTimeLeft = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -300,6 +576,10 @@ function App() {
           {demoState.phase === 'dialing' && <span className="status-badge dialing">Dialing...</span>}
           {demoState.phase === 'connected' && <span className="status-badge connected">On Call</span>}
           {demoState.phase === 'completed' && <span className="status-badge completed">Demo Complete</span>}
+          {session?.role === 'observer' && <span className="status-badge observer">Observing</span>}
+          {session?.role === 'owner' && (
+            <button className="share-btn" onClick={shareObserverLink}>Share View</button>
+          )}
         </div>
       </header>
 
@@ -311,18 +591,26 @@ function App() {
               <h1>Power Dialer Demo</h1>
               <p className="subtitle">Experience instant callbacks and real-time CRM updates</p>
 
-              <div className="code-display">
-                <span className="code-label">Your Demo Code</span>
-                <span className="code-value">{session?.pairCode}</span>
-              </div>
+              {session?.pairCode ? (
+                <>
+                  <div className="code-display">
+                    <span className="code-label">Your Demo Code</span>
+                    <PairCodeValue code={session.pairCode} />
+                  </div>
 
-              <div className="call-instructions">
-                <div className="phone-number">
-                  <span className="phone-icon">📱</span>
-                  <span className="phone-value">{formatPhoneDisplay(session?.phoneNumber || '')}</span>
+                  <div className="call-instructions">
+                    <div className="phone-number">
+                      <span className="phone-icon">📱</span>
+                      <span className="phone-value">{formatPhoneDisplay(session.phoneNumber || '')}</span>
+                    </div>
+                    <p>Call this number and speak the code above</p>
+                  </div>
+                </>
+              ) : (
+                <div className="call-instructions">
+                  <p>Watching this demo - it starts when the visitor calls in</p>
                 </div>
-                <p>Call this number and speak the code above</p>
-              </div>
+              )}
 
               <div className="status-indicator">
                 <div className="pulse-dot" />
@@ -332,6 +620,30 @@ function App() {
               {timeLeft > 0 && (
                 <p className="timer">Session expires in {formatTimeLeft(timeLeft)}</p>
               )}
+
+              {session?.role === 'owner' && (
+                <form className="call-me-form" onSubmit={requestCallMe}>
+                  <p className="call-me-title">Can't call in? Skip to the dialer and we'll call you.</p>
+                  <input
+                    type="text"
+                    placeholder="Your name"
+                    value={callMeForm.name}
+                    onChange={e => setCallMeForm(prev => ({ ...prev, name: e.target.value }))}
+                    maxLength={100}
+                  />
+                  <input
+                    type="tel"
+                    placeholder="(555) 555-1234"
+                    value={callMeForm.phoneNumber}
+                    onChange={e => setCallMeForm(prev => ({ ...prev, phoneNumber: e.target.value }))}
+                    required
+                  />
+                  <button type="submit" disabled={callMeSubmitting}>
+                    {callMeSubmitting ? 'Requesting...' : 'Call Me'}
+                  </button>
+                  {callMeError && <p className="call-me-error">{callMeError}</p>}
+                </form>
+              )}
             </div>
 
             <div className="steps-card">
@@ -383,11 +695,15 @@ function App() {
                 </div>
               </div>
 
-              <div className="progress-card pending">
+              <div className={`progress-card ${demoState.pendingPhone ? 'active' : 'pending'}`}>
                 <div className="card-icon">3</div>
                 <div className="card-content">
                   <h3>Callback Demo</h3>
-                  <p>Coming up next...</p>
+                  <p>
+                    {demoState.pendingPhone
+                      ? `Confirming ${demoState.pendingPhone}...`
+                      : demoState.callbackNotice || 'Coming up next...'}
+                  </p>
                 </div>
               </div>
             </div>
@@ -421,10 +737,11 @@ function App() {
               <div className="dialer-header">
                 <h2>Power Dialer</h2>
                 <div className={`dialer-status ${dialerAnimation}`}>
-                  {dialerAnimation === 'idle' && 'Ready'}
+                  {dialerAnimation === 'idle' && (callbackRetry ? `Retrying in ${retryCountdown}s` : 'Ready')}
                   {dialerAnimation === 'dialing' && 'Dialing...'}
                   {dialerAnimation === 'ringing' && 'Ringing...'}
                   {dialerAnimation === 'connected' && 'Connected'}
+                  {dialerAnimation === 'voicemail' && 'Voicemail'}
                 </div>
               </div>
 
@@ -441,6 +758,9 @@ function App() {
                   {dialerAnimation === 'connected' && (
                     <div className="connected-icon">✓</div>
                   )}
+                  {dialerAnimation === 'voicemail' && (
+                    <div className="voicemail-icon">📼</div>
+                  )}
                 </div>
                 <div className="dial-number">{demoState.callerPhone || '(***) ***-****'}</div>
                 <div className="dial-name">{demoState.callerName}</div>
@@ -452,10 +772,33 @@ function App() {
                 ))}
               </div>
 
+              {demoState.callbackNotice && !callbackRetry && (
+                <p className="retry-notice">{demoState.callbackNotice}</p>
+              )}
+
+              {demoState.transfer && <TransferStatus transfer={demoState.transfer} />}
+
+              {callbackRetry && (
+                <p className="retry-notice">
+                  No answer - calling again in {retryCountdown}s (attempt {callbackRetry.attempt} of {callbackRetry.maxAttempts})
+                </p>
+              )}
+
               <div className="dialer-actions">
-                <button className={`action-btn ${dialerAnimation === 'connected' ? 'end-call' : ''}`} disabled>
-                  {dialerAnimation === 'connected' ? '🔴 End Call' : '📞 Dial'}
-                </button>
+                {callbackRetry && session?.role === 'owner' ? (
+                  <>
+                    <button className="action-btn retry-now" onClick={() => sendCallbackAction('retry-now')}>
+                      📞 Call Me Again Now
+                    </button>
+                    <button className="action-btn cancel" onClick={() => sendCallbackAction('cancel')}>
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <button className={`action-btn ${dialerAnimation === 'connected' ? 'end-call' : ''}`} disabled>
+                    {dialerAnimation === 'connected' ? '🔴 End Call' : '📞 Dial'}
+                  </button>
+                )}
               </div>
             </div>
 
@@ -479,6 +822,16 @@ function App() {
                     <label>Phone</label>
                     <span>{demoState.callerPhone || '—'}</span>
                   </div>
+                  {demoState.callerId && (
+                    <div className="info-row caller-id-row">
+                      <label>Caller ID</label>
+                      <span>
+                        {formatPhoneDisplay(demoState.callerId.number)}
+                        {demoState.callerId.match !== 'default' && <span className="local-badge">Local</span>}
+                        <small>{demoState.callerId.reason}</small>
+                      </span>
+                    </div>
+                  )}
                   <div className="info-row">
                     <label>Industry</label>
                     <span>{demoState.vertical ? formatVertical(demoState.vertical, demoState.verticalDisplay) : '—'}</span>
@@ -556,6 +909,7 @@ function App() {
                 <li>✓ Real-time CRM updates during calls</li>
                 <li>✓ Voice-activated appointment scheduling</li>
               </ul>
+              {demoState.transfer && <TransferStatus transfer={demoState.transfer} />}
               <button onClick={() => window.location.reload()}>Start New Demo</button>
             </div>
           </div>
@@ -4,6 +4,9 @@
  * Usage: RETELL_API_KEY=key_xxx npx tsx scripts/setup-retell.ts
  */
 
+import { retellTools } from '../src/flow-tools.js';
+import { config } from '../src/config.js';
+
 const RETELL_API_KEY = process.env.RETELL_API_KEY;
 const BASE_URL = process.env.BASE_URL || 'https://callin-6bcc.onrender.com';
 
@@ -43,13 +46,13 @@ const INBOUND_PROMPT = `You are a friendly demo assistant for PhoneBurner's powe
 
 1. **Greet and get name**: Start by warmly greeting the caller and asking for their name. Once they tell you, call the capture_name function.
 
-2. **Code verification**: Ask them to read the 4-digit code shown on their browser screen. When they give you a code, call the verify_code function. If it fails, ask them to try again.
+2. **Code verification**: Ask them to read the ${config.pairCodes.format === 'words' ? 'code words' : '4-digit code'} shown on their browser screen. When they give you a code, call the verify_code function. If it fails, ask them to try again. If the result asks them to say the code again, pass what they say to confirm_code.
 
 3. **Industry question**: Once verified, ask what industry they're in - Real Estate, Insurance, Mortgage, or Other. Call capture_vertical with their answer.
 
 4. **Pain point question**: Ask about their biggest pain point with outbound calling - Spam Flags, Awkward Delay, Low Answer Rates, or Speed. Call capture_pain with their answer.
 
-5. **Phone capture**: Explain you'll demonstrate the power dialer by calling them back instantly. Ask for their phone number. When they give it, call initiate_callback and tell them to hang up and answer the incoming call.
+5. **Phone capture**: Explain you'll demonstrate the power dialer by calling them back instantly. If the capture_pain result offers to call them back at the number they're calling from, pass their reply to accept_caller_id. Otherwise ask for their phone number. When they give it, call initiate_callback and read the number back. Pass their reply (yes, no, or a corrected number) to confirm_callback_number. Once it is confirmed, tell them to hang up and answer the incoming call.
 
 ## Guidelines
 - Keep responses under 30 words
@@ -67,105 +70,17 @@ const CALLBACK_PROMPT = `You're calling back a user who just completed the first
 3. Point out their browser is updating in real-time
 4. Ask if they'd like to schedule a follow-up demo call
 5. Call schedule_appointment with their answer (yes/no)
-6. Thank them for trying the demo and say goodbye
+6. Offer to connect them to someone on the sales team and call transfer_to_rep with their answer
+7. If transfer_to_rep returns a transfer_number, call transfer_call right away. Otherwise thank them for trying the demo and say goodbye
 
 ## Guidelines
 - Keep responses concise and enthusiastic
 - Emphasize the instant connection and real-time updates
-- The session_id variable contains their session for the function call`;
+- If at any point they ask to talk to a person, call transfer_to_rep with what they said`;
 
-// Custom tools for inbound agent
+// Custom tools come from the shared flow definition (src/flow.ts)
 const inboundTools = [
-  {
-    type: 'custom',
-    name: 'capture_name',
-    description: 'Call this when the user tells you their name',
-    url: WEBHOOK_URL,
-    speak_during_execution: false,
-    speak_after_execution: true,
-    parameters: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'The caller\'s name',
-        },
-      },
-      required: ['name'],
-    },
-  },
-  {
-    type: 'custom',
-    name: 'verify_code',
-    description: 'Call this when the user tells you the 4-digit code from their screen',
-    url: WEBHOOK_URL,
-    speak_during_execution: false,
-    speak_after_execution: true,
-    parameters: {
-      type: 'object',
-      properties: {
-        code: {
-          type: 'string',
-          description: 'The 4-digit code the user read from their browser',
-        },
-      },
-      required: ['code'],
-    },
-  },
-  {
-    type: 'custom',
-    name: 'capture_vertical',
-    description: 'Call this when the user tells you their industry',
-    url: WEBHOOK_URL,
-    speak_during_execution: false,
-    speak_after_execution: true,
-    parameters: {
-      type: 'object',
-      properties: {
-        vertical: {
-          type: 'string',
-          description: 'The industry: real estate, insurance, mortgage, or other',
-        },
-      },
-      required: ['vertical'],
-    },
-  },
-  {
-    type: 'custom',
-    name: 'capture_pain',
-    description: 'Call this when the user tells you their pain point',
-    url: WEBHOOK_URL,
-    speak_during_execution: false,
-    speak_after_execution: true,
-    parameters: {
-      type: 'object',
-      properties: {
-        pain: {
-          type: 'string',
-          description: 'The pain point: spam flags, awkward delay, low answer rates, or speed',
-        },
-      },
-      required: ['pain'],
-    },
-  },
-  {
-    type: 'custom',
-    name: 'initiate_callback',
-    description: 'Call this when the user gives you their phone number for the callback',
-    url: WEBHOOK_URL,
-    speak_during_execution: false,
-    speak_after_execution: true,
-    parameters: {
-      type: 'object',
-      properties: {
-        phone_number: {
-          type: 'string',
-          description: 'The phone number to call back',
-        },
-      },
-      required: ['phone_number'],
-    },
-  },
+  ...retellTools('inbound', WEBHOOK_URL),
   {
     type: 'end_call',
     name: 'end_call',
@@ -173,28 +88,19 @@ const inboundTools = [
   },
 ];
 
-// Custom tools for callback agent
 const callbackTools = [
+  ...retellTools('callback', WEBHOOK_URL),
   {
-    type: 'custom',
-    name: 'schedule_appointment',
-    description: 'Call this when asking if the user wants to schedule a follow-up',
-    url: WEBHOOK_URL,
-    speak_during_execution: false,
-    speak_after_execution: true,
-    parameters: {
-      type: 'object',
-      properties: {
-        wants_schedule: {
-          type: 'string',
-          description: 'Whether they want to schedule: yes or no',
-        },
-        session_id: {
-          type: 'string',
-          description: 'The session ID from the dynamic variable',
-        },
-      },
-      required: ['wants_schedule'],
+    // Warm transfer to the rep transfer_to_rep picked (see src/transfer.ts)
+    type: 'transfer_call',
+    name: 'transfer_call',
+    description: 'Transfer the call to the sales rep returned by transfer_to_rep',
+    transfer_destination: {
+      type: 'inferred',
+      prompt: 'The transfer_number returned by the most recent transfer_to_rep call',
+    },
+    transfer_option: {
+      type: 'warm_transfer',
     },
   },
   {
@@ -242,6 +148,10 @@ async function createAgent(name: string, llmId: string, isCallback: boolean = fa
   // For callback agent, we pass dynamic variables
   if (isCallback) {
     agentConfig.begin_message = 'Hi {{caller_name}}! This is PhoneBurner calling you back.';
+    // Leave a message instead of running the script at an answering machine;
+    // the call then ends with disconnection_reason voicemail_reached
+    agentConfig.enable_voicemail_detection = config.voicemail.detection;
+    agentConfig.voicemail_message = config.voicemail.message;
   } else {
     agentConfig.begin_message = 'Hi, welcome to the PhoneBurner demo! What\'s your name?';
   }
@@ -0,0 +1,371 @@
+/**
+ * Text-mode call simulator - acts as a fake caller so the demo flow can be
+ * tested end to end without dialing a real phone number.
+ *
+ * Usage:
+ *   npx tsx scripts/simulate-call.ts [options] [script-file]
+ *
+ * Options:
+ *   --mode twilio|retell   Which voice path to drive (default: twilio)
+ *   --base-url <url>       Server to call (default: BASE_URL or http://localhost:3000)
+ *   --from <number>        Caller ID to present (default: +14155550100)
+ *   --linger <seconds>     How long to keep printing events after the call (default: 10)
+ *
+ * Each line of the script file (or stdin) is one thing the caller says:
+ *   - `{code}` is replaced with the pair code of the session the simulator
+ *     creates, so scripts can be replayed against a fresh server
+ *   - a blank line is silence (Twilio: follows the <Redirect> re-prompt)
+ *   - `@wait <seconds>` pauses, e.g. to watch callback events arrive
+ *   - `#` starts a comment
+ *   - in retell mode each line is `<function>: <value>`, e.g. `verify_code: {code}`
+ *
+ * Requests are signed with TWILIO_AUTH_TOKEN / RETELL_API_KEY when set, so
+ * they pass webhook verification as long as --base-url matches the server's
+ * BASE_URL. Otherwise run the server with SKIP_WEBHOOK_SIGNATURE_VALIDATION=true.
+ */
+
+import dotenv from 'dotenv';
+import crypto from 'crypto';
+import fs from 'fs';
+import readline from 'readline';
+import twilio from 'twilio';
+import { io, Socket } from 'socket.io-client';
+import { stepTools } from '../src/flow-tools.js';
+
+dotenv.config();
+
+interface Options {
+  mode: 'twilio' | 'retell';
+  baseUrl: string;
+  from: string;
+  linger: number;
+  scriptFile?: string;
+}
+
+interface DemoSession {
+  sessionId: string;
+  pairCode: string;
+  subscriptionToken: string;
+}
+
+// Argument each Retell custom function takes
+const TOOL_ARGUMENTS: Record<string, string> = Object.fromEntries(
+  Object.values(stepTools).map(tool => [tool.name, tool.argument])
+);
+
+interface ParsedTwiml {
+  say: string[];
+  gatherAction?: string;
+  redirect?: string;
+  hangup: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    mode: 'twilio',
+    baseUrl: process.env.BASE_URL || 'http://localhost:3000',
+    from: '+14155550100',
+    linger: 10,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--mode': {
+        const mode = argv[++i];
+        if (mode !== 'twilio' && mode !== 'retell') {
+          console.error(`Error: --mode must be twilio or retell, got ${mode}`);
+          process.exit(1);
+        }
+        options.mode = mode;
+        break;
+      }
+      case '--base-url':
+        options.baseUrl = argv[++i];
+        break;
+      case '--from':
+        options.from = argv[++i];
+        break;
+      case '--linger':
+        options.linger = Number(argv[++i]);
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Error: Unknown option ${arg}`);
+          process.exit(1);
+        }
+        options.scriptFile = arg;
+    }
+  }
+
+  options.baseUrl = options.baseUrl.replace(/\/$/, '');
+  return options;
+}
+
+// ============================================================================
+// Browser side - create a session and watch its events
+// ============================================================================
+
+async function createDemoSession(baseUrl: string): Promise<DemoSession> {
+  const response = await fetch(`${baseUrl}/api/session`, { method: 'POST' });
+
+  if (!response.ok) {
+    throw new Error(`Failed to create session: ${response.status} - ${await response.text()}`);
+  }
+
+  return response.json() as Promise<DemoSession>;
+}
+
+function watchSession(baseUrl: string, session: DemoSession): Socket {
+  const socket = io(baseUrl, { transports: ['websocket'] });
+
+  socket.on('connect', () => {
+    socket.emit('subscribe', { sessionId: session.sessionId, token: session.subscriptionToken });
+  });
+
+  socket.onAny((event: string, data: unknown) => {
+    console.log(`  [event] ${event} ${data === undefined ? '' : JSON.stringify(data)}`);
+  });
+
+  return socket;
+}
+
+// ============================================================================
+// Caller side - script lines
+// ============================================================================
+
+async function* readScript(scriptFile: string | undefined): AsyncGenerator<string> {
+  const input = scriptFile ? fs.createReadStream(scriptFile) : process.stdin;
+  const lines = readline.createInterface({ input, terminal: false });
+
+  if (!scriptFile && process.stdin.isTTY) {
+    console.log('Type what the caller says, one line at a time (Ctrl+D to hang up).');
+  }
+
+  for await (const line of lines) {
+    if (line.trim().startsWith('#')) continue;
+    yield line;
+  }
+}
+
+function sleep(seconds: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, seconds * 1000));
+}
+
+// ============================================================================
+// Twilio mode
+// ============================================================================
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+function parseTwiml(xml: string): ParsedTwiml {
+  const say = [...xml.matchAll(/<Say[^>]*>([\s\S]*?)<\/Say>/g)].map(m => decodeXml(m[1]));
+  const gather = xml.match(/<Gather[^>]*\saction="([^"]*)"/);
+  const redirect = xml.match(/<Redirect[^>]*>([\s\S]*?)<\/Redirect>/);
+
+  return {
+    say,
+    gatherAction: gather ? decodeXml(gather[1]) : undefined,
+    redirect: redirect ? decodeXml(redirect[1]) : undefined,
+    hangup: /<Hangup\s*\/>/.test(xml),
+  };
+}
+
+async function postTwilio(options: Options, path: string, params: Record<string, string>): Promise<ParsedTwiml> {
+  const url = path.startsWith('http') ? path : `${options.baseUrl}${path}`;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+  };
+
+  if (process.env.TWILIO_AUTH_TOKEN) {
+    headers['X-Twilio-Signature'] = twilio.getExpectedTwilioSignature(
+      process.env.TWILIO_AUTH_TOKEN,
+      url,
+      params
+    );
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams(params).toString(),
+  });
+
+  const body = await response.text();
+  if (!response.ok) {
+    throw new Error(`${path} returned ${response.status} - ${body}`);
+  }
+
+  const twiml = parseTwiml(body);
+  for (const sentence of twiml.say) {
+    console.log(`< agent: ${sentence}`);
+  }
+  return twiml;
+}
+
+async function runTwilio(options: Options, session: DemoSession) {
+  const callSid = `CAsim${crypto.randomBytes(14).toString('hex')}`;
+  const baseParams = {
+    CallSid: callSid,
+    From: options.from,
+    To: process.env.TWILIO_PHONE_NUMBER || '+15005550006',
+    Direction: 'inbound',
+  };
+
+  console.log(`Simulated Twilio call ${callSid} from ${options.from}`);
+  let twiml = await postTwilio(options, '/twilio/voice', { ...baseParams, CallStatus: 'in-progress' });
+
+  for await (const line of readScript(options.scriptFile)) {
+    if (twiml.hangup) break;
+
+    const waitMatch = line.trim().match(/^@wait\s+(\d+(?:\.\d+)?)$/);
+    if (waitMatch) {
+      await sleep(Number(waitMatch[1]));
+      continue;
+    }
+
+    const speech = line.replace(/\{code\}/g, session.pairCode).trim();
+
+    if (!speech) {
+      // Silence - Twilio falls through the <Gather> to the <Redirect>
+      console.log('> caller: (silence)');
+      if (!twiml.redirect) break;
+      twiml = await postTwilio(options, twiml.redirect, { ...baseParams, CallStatus: 'in-progress' });
+      continue;
+    }
+
+    if (!twiml.gatherAction) {
+      console.log('(agent is not listening - ignoring input)');
+      continue;
+    }
+
+    console.log(`> caller: ${speech}`);
+    twiml = await postTwilio(options, twiml.gatherAction, {
+      ...baseParams,
+      CallStatus: 'in-progress',
+      SpeechResult: speech,
+      Confidence: '0.9',
+    });
+  }
+
+  console.log('(call ended)');
+  await postTwilio(options, '/twilio/status', { ...baseParams, CallStatus: 'completed', CallDuration: '60' });
+}
+
+// ============================================================================
+// Retell mode
+// ============================================================================
+
+async function postRetell(options: Options, path: string, payload: unknown): Promise<unknown> {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  if (process.env.RETELL_API_KEY) {
+    const timestamp = Date.now();
+    const digest = crypto
+      .createHmac('sha256', process.env.RETELL_API_KEY)
+      .update(body + timestamp)
+      .digest('hex');
+    headers['X-Retell-Signature'] = `v=${timestamp},d=${digest}`;
+  }
+
+  const response = await fetch(`${options.baseUrl}${path}`, { method: 'POST', headers, body });
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`${path} returned ${response.status} - ${text}`);
+  }
+
+  return JSON.parse(text);
+}
+
+async function runRetell(options: Options, session: DemoSession) {
+  const call = {
+    call_id: `sim_${crypto.randomBytes(12).toString('hex')}`,
+    call_status: 'ongoing',
+    agent_id: process.env.RETELL_AGENT_ID || 'sim_agent',
+    from_number: options.from,
+    to_number: process.env.TWILIO_PHONE_NUMBER || '+15005550006',
+    start_timestamp: Date.now(),
+  };
+
+  console.log(`Simulated Retell call ${call.call_id} from ${options.from}`);
+  await postRetell(options, '/retell/webhook', { event: 'call_started', call });
+
+  for await (const line of readScript(options.scriptFile)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const waitMatch = trimmed.match(/^@wait\s+(\d+(?:\.\d+)?)$/);
+    if (waitMatch) {
+      await sleep(Number(waitMatch[1]));
+      continue;
+    }
+
+    const match = trimmed.match(/^(\w+)\s*:\s*(.*)$/);
+    if (!match) {
+      console.log('(retell mode expects "<function>: <value>" - ignoring line)');
+      continue;
+    }
+
+    const [, name, rawValue] = match;
+    const value = rawValue.replace(/\{code\}/g, session.pairCode);
+
+    console.log(`> tool: ${name}(${JSON.stringify(value)})`);
+    const response = await postRetell(options, '/retell/custom-function', {
+      call,
+      name,
+      args: { [TOOL_ARGUMENTS[name] || 'value']: value },
+    }) as { result?: string; information?: unknown };
+
+    console.log(`< agent: ${response.result}`);
+    if (response.information) {
+      console.log(`  [info] ${JSON.stringify(response.information)}`);
+    }
+  }
+
+  console.log('(call ended)');
+  await postRetell(options, '/retell/webhook', {
+    event: 'call_ended',
+    call: { ...call, call_status: 'ended', end_timestamp: Date.now(), disconnection_reason: 'user_hangup' },
+  });
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.log('='.repeat(50));
+  console.log(`Call simulator (${options.mode}) -> ${options.baseUrl}`);
+  console.log('='.repeat(50));
+
+  const session = await createDemoSession(options.baseUrl);
+  console.log(`Session ${session.sessionId} - pair code ${session.pairCode}`);
+
+  const socket = watchSession(options.baseUrl, session);
+
+  try {
+    if (options.mode === 'retell') {
+      await runRetell(options, session);
+    } else {
+      await runTwilio(options, session);
+    }
+
+    if (options.linger > 0) {
+      console.log(`Watching for events for ${options.linger}s...`);
+      await sleep(options.linger);
+    }
+  } finally {
+    socket.disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('Simulation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,20 @@
+import { AdminAlert } from '@prisma/client';
+import { prisma } from './db.js';
+
+/**
+ * Alerts for operators. Each is stored so the admin API can list it, on top
+ * of whatever the caller logs.
+ */
+
+export type AdminAlertType = 'pair_code_guessing';
+
+export async function raiseAdminAlert(type: AdminAlertType, details: Record<string, unknown>) {
+  await prisma.adminAlert.create({ data: { type, details: details as object } });
+}
+
+/**
+ * Most recent alerts first.
+ */
+export async function listAdminAlerts(limit: number): Promise<AdminAlert[]> {
+  return prisma.adminAlert.findMany({ orderBy: { createdAt: 'desc' }, take: limit });
+}
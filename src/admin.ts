@@ -0,0 +1,273 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { config } from './config.js';
+import { logSecurityEvent } from './webhook-auth.js';
+import {
+  addToDoNotCallList,
+  removeFromDoNotCallList,
+  importDoNotCallCsv,
+  exportDoNotCallCsv,
+  normalizeListNumber,
+} from './do-not-call.js';
+import { addOutboundNumber, removeOutboundNumber } from './caller-id-pool.js';
+import { numberHealthReport } from './number-health.js';
+import { listReps, addRep, updateRep, removeRep } from './transfer.js';
+import { pairCodePoolStats } from './pair-codes.js';
+import { pairGuardStatus } from './pair-guard.js';
+import { listAdminAlerts } from './admin-alerts.js';
+import { maskPhone, normalizePhoneNumber } from './phone.js';
+
+const router = Router();
+
+/**
+ * Admin endpoints need `Authorization: Bearer <ADMIN_API_KEY>`. With no key
+ * configured they're switched off entirely.
+ */
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!config.admin.apiKey) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  const token = req.header('Authorization')?.replace(/^Bearer\s+/i, '') || '';
+  const expected = Buffer.from(config.admin.apiKey);
+  const actual = Buffer.from(token);
+
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    logSecurityEvent('admin_auth_failed', req);
+    return res.status(401).json({ error: 'Invalid admin API key' });
+  }
+
+  next();
+}
+
+router.use(requireAdmin);
+
+// ============================================================================
+// Do-Not-Call List
+// ============================================================================
+
+// Export the list as CSV
+router.get('/dnc', async (_req: Request, res: Response) => {
+  try {
+    const csv = await exportDoNotCallCsv();
+    res.type('text/csv');
+    res.attachment('do-not-call.csv');
+    res.send(csv);
+  } catch (error) {
+    console.error('Error exporting do-not-call list:', error);
+    res.status(500).json({ error: 'Failed to export do-not-call list' });
+  }
+});
+
+// Import a CSV of phone_number[,reason] rows
+router.post(
+  '/dnc/import',
+  express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+  async (req: Request, res: Response) => {
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      return res.status(400).json({ error: 'Send the CSV as a text/csv request body' });
+    }
+
+    try {
+      const result = await importDoNotCallCsv(req.body);
+      console.log(`Do-not-call import: ${result.added} added, ${result.existing} already listed, ${result.invalidLines.length} invalid`);
+      res.json(result);
+    } catch (error) {
+      console.error('Error importing do-not-call list:', error);
+      res.status(500).json({ error: 'Failed to import do-not-call list' });
+    }
+  }
+);
+
+// Add a single number
+router.post('/dnc', async (req: Request, res: Response) => {
+  const phoneNumber = normalizeListNumber(String(req.body?.phoneNumber ?? ''));
+  if (!phoneNumber) {
+    return res.status(400).json({ error: 'Invalid phone number' });
+  }
+
+  try {
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim().slice(0, 200) || null : null;
+    await addToDoNotCallList(phoneNumber, reason, 'admin');
+    console.log(`Added ${maskPhone(phoneNumber)} to the do-not-call list`);
+    res.json({ success: true, phoneNumber });
+  } catch (error) {
+    console.error('Error adding to do-not-call list:', error);
+    res.status(500).json({ error: 'Failed to add number' });
+  }
+});
+
+// Remove a number
+router.delete('/dnc/:phoneNumber', async (req: Request, res: Response) => {
+  const phoneNumber = normalizeListNumber(req.params.phoneNumber as string);
+  if (!phoneNumber) {
+    return res.status(400).json({ error: 'Invalid phone number' });
+  }
+
+  try {
+    const removed = await removeFromDoNotCallList(phoneNumber);
+    if (!removed) {
+      return res.status(404).json({ error: 'Number is not on the list' });
+    }
+
+    console.log(`Removed ${maskPhone(phoneNumber)} from the do-not-call list`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing from do-not-call list:', error);
+    res.status(500).json({ error: 'Failed to remove number' });
+  }
+});
+
+// ============================================================================
+// Caller ID Pool
+// ============================================================================
+
+// Pool numbers with their health and metrics, in total and per day over
+// the last ?days= days (default 7)
+router.get('/numbers', async (req: Request, res: Response) => {
+  const days = Math.min(Math.max(parseInt(String(req.query.days || '7'), 10) || 7, 1), 90);
+
+  try {
+    res.json({ days, numbers: await numberHealthReport(days) });
+  } catch (error) {
+    console.error('Error listing outbound numbers:', error);
+    res.status(500).json({ error: 'Failed to list numbers' });
+  }
+});
+
+// Add a number to the pool - it must already be a Twilio (and, for Retell
+// callbacks, Retell) number on this account
+router.post('/numbers', async (req: Request, res: Response) => {
+  const phoneNumber = normalizePhoneNumber(req.body?.phoneNumber);
+  if (!phoneNumber) {
+    return res.status(400).json({ error: 'Invalid phone number' });
+  }
+
+  try {
+    const number = await addOutboundNumber(phoneNumber);
+    console.log(`Added ${phoneNumber} to the caller ID pool (${number.areaCode}, ${number.state || 'unknown state'})`);
+    res.json({ number });
+  } catch (error) {
+    console.error('Error adding outbound number:', error);
+    res.status(500).json({ error: 'Failed to add number' });
+  }
+});
+
+router.delete('/numbers/:phoneNumber', async (req: Request, res: Response) => {
+  const phoneNumber = normalizePhoneNumber(req.params.phoneNumber);
+  if (!phoneNumber) {
+    return res.status(400).json({ error: 'Invalid phone number' });
+  }
+
+  try {
+    const removed = await removeOutboundNumber(phoneNumber);
+    if (!removed) {
+      return res.status(404).json({ error: 'Number is not in the pool' });
+    }
+
+    console.log(`Removed ${phoneNumber} from the caller ID pool`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing outbound number:', error);
+    res.status(500).json({ error: 'Failed to remove number' });
+  }
+});
+
+// ============================================================================
+// Sales Rep Roster
+// ============================================================================
+
+router.get('/reps', async (_req: Request, res: Response) => {
+  try {
+    res.json({ reps: await listReps() });
+  } catch (error) {
+    console.error('Error listing reps:', error);
+    res.status(500).json({ error: 'Failed to list reps' });
+  }
+});
+
+// Add a rep, or rename one already on the roster with this number
+router.post('/reps', async (req: Request, res: Response) => {
+  const name = typeof req.body?.name === 'string' ? req.body.name.trim().slice(0, 100) : '';
+  const phoneNumber = normalizePhoneNumber(req.body?.phoneNumber);
+  if (!name || !phoneNumber) {
+    return res.status(400).json({ error: 'A name and a valid phone number are required' });
+  }
+
+  try {
+    const rep = await addRep(name, phoneNumber);
+    console.log(`Added rep ${rep.name} to the roster`);
+    res.json({ rep });
+  } catch (error) {
+    console.error('Error adding rep:', error);
+    res.status(500).json({ error: 'Failed to add rep' });
+  }
+});
+
+// Update `{ name?, available? }` - e.g. mark a rep away
+router.patch('/reps/:id', async (req: Request, res: Response) => {
+  const data: { name?: string; available?: boolean } = {};
+  if (typeof req.body?.name === 'string' && req.body.name.trim()) {
+    data.name = req.body.name.trim().slice(0, 100);
+  }
+  if (typeof req.body?.available === 'boolean') {
+    data.available = req.body.available;
+  }
+
+  try {
+    const rep = await updateRep(req.params.id as string, data);
+    if (!rep) {
+      return res.status(404).json({ error: 'Rep not found' });
+    }
+    res.json({ rep });
+  } catch (error) {
+    console.error('Error updating rep:', error);
+    res.status(500).json({ error: 'Failed to update rep' });
+  }
+});
+
+router.delete('/reps/:id', async (req: Request, res: Response) => {
+  try {
+    const removed = await removeRep(req.params.id as string);
+    if (!removed) {
+      return res.status(404).json({ error: 'Rep not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing rep:', error);
+    res.status(500).json({ error: 'Failed to remove rep' });
+  }
+});
+
+// ============================================================================
+// Pair Code Pool
+// ============================================================================
+
+// Pool usage, plus recent wrong guesses and any guessing lockouts
+router.get('/pair-codes', async (_req: Request, res: Response) => {
+  try {
+    const [pool, guard] = await Promise.all([pairCodePoolStats(), pairGuardStatus()]);
+    res.json({ ...pool, guard });
+  } catch (error) {
+    console.error('Error reading pair code pool:', error);
+    res.status(500).json({ error: 'Failed to read pair code pool' });
+  }
+});
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+// Most recent alerts first, up to ?limit= (default 50)
+router.get('/alerts', async (req: Request, res: Response) => {
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 500);
+
+  try {
+    res.json({ alerts: await listAdminAlerts(limit) });
+  } catch (error) {
+    console.error('Error listing alerts:', error);
+    res.status(500).json({ error: 'Failed to list alerts' });
+  }
+});
+
+export default router;
@@ -1,10 +1,59 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { createSession, getSession, cleanupExpiredSessions } from './session.js';
+import { createSession, getSession, cleanupExpiredSessions, isSessionOwner, activateSession } from './session.js';
+import { createSubscriptionToken, verifySubscriptionToken, SubscriptionRole } from './signing.js';
+import { logSecurityEvent } from './webhook-auth.js';
+import {
+  requestCallback,
+  reportBlockedCallback,
+  retryCallbackNow,
+  cancelCallbackRetry,
+  callbackDeferral,
+} from './callback.js';
+import { checkDestination } from './destination-policy.js';
+import { PairCodePoolExhaustedError } from './pair-codes.js';
+import { normalizePhoneNumber, maskPhone } from './phone.js';
+import { sanitizeName } from './speech-parser.js';
 import { config } from './config.js';
 
 const router = Router();
 
+// Click-to-call has no inbound call to take the provider from
+const BROWSER_CALLBACK_CHANNEL = 'twilio';
+
+// Owner tokens live as long as the browserToken cookie
+const OWNER_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Only let the session's owner (browserToken cookie or owner token) or, where
+ * allowed, an observer token holder through. Tokens are read from an
+ * `Authorization: Bearer` header or a `?token=` query parameter.
+ */
+function requireSessionAccess(allowed: SubscriptionRole[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const sessionId = req.params.id as string;
+    const bearer = req.header('Authorization')?.replace(/^Bearer\s+/i, '');
+    const token = bearer || req.query.token;
+
+    try {
+      let role = verifySubscriptionToken(token, sessionId);
+      if (!role && await isSessionOwner(sessionId, req.cookies?.browserToken)) {
+        role = 'owner';
+      }
+
+      if (!role || !allowed.includes(role)) {
+        logSecurityEvent('session_access_denied', req, { sessionId });
+        return res.status(403).json({ error: 'Not authorized for this session' });
+      }
+
+      res.locals.sessionRole = role;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
 // Create or retrieve session
 router.post('/session', async (req: Request, res: Response) => {
   try {
@@ -28,15 +77,24 @@ router.post('/session', async (req: Request, res: Response) => {
       pairCode: session.pairCode,
       expiresAt: session.expiresAt.toISOString(),
       phoneNumber: config.twilio.phoneNumber,
+      subscriptionToken: createSubscriptionToken(
+        session.id,
+        'owner',
+        new Date(Date.now() + OWNER_TOKEN_TTL_MS)
+      ),
     });
   } catch (error) {
+    if (error instanceof PairCodePoolExhaustedError) {
+      res.set('Retry-After', '60');
+      return res.status(503).json({ error: 'Too many demos are running right now - please try again in a minute.' });
+    }
     console.error('Error creating session:', error);
     res.status(500).json({ error: 'Failed to create session' });
   }
 });
 
 // Get session status
-router.get('/session/:id', async (req: Request, res: Response) => {
+router.get('/session/:id', requireSessionAccess(['owner', 'observer']), async (req: Request, res: Response) => {
   try {
     const sessionId = req.params.id as string;
     const session = await getSession(sessionId);
@@ -47,9 +105,12 @@ router.get('/session/:id', async (req: Request, res: Response) => {
 
     res.json({
       id: session.id,
+      role: res.locals.sessionRole,
       status: session.status,
-      pairCode: session.pairCode,
+      // Observers are read-only: with the code they could phone in and pair the session
+      ...(res.locals.sessionRole !== 'observer' && { pairCode: session.pairCode }),
       expiresAt: session.expiresAt.toISOString(),
+      phoneNumber: config.twilio.phoneNumber,
       activeUntil: session.activeUntil?.toISOString(),
       callerName: session.callerName,
       events: session.events.map(e => ({
@@ -64,6 +125,86 @@ router.get('/session/:id', async (req: Request, res: Response) => {
   }
 });
 
+// Issue a read-only observer token (e.g. for a sales rep watching the demo)
+router.post('/session/:id/observer-token', requireSessionAccess(['owner']), async (req: Request, res: Response) => {
+  const sessionId = req.params.id as string;
+  const expiresAt = new Date(Date.now() + config.session.pairedExpiryMinutes * 60 * 1000);
+
+  res.json({
+    token: createSubscriptionToken(sessionId, 'observer', expiresAt),
+    expiresAt: expiresAt.toISOString(),
+  });
+});
+
+// Click-to-call - skip pairing and have the dialer call a number typed in the browser
+router.post('/session/:id/callback', requireSessionAccess(['owner']), async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.id as string;
+    const phoneNumber = normalizePhoneNumber(req.body?.phoneNumber);
+    if (!phoneNumber) {
+      return res.status(400).json({ error: 'Enter a valid 10-digit US phone number' });
+    }
+
+    // Refuse before activating so the visitor can try another number. Calls
+    // just before calling hours are let through and held until they open.
+    // The same verdict goes to requestCallback, so nothing refuses the number
+    // once the session is active.
+    const verdict = await checkDestination(phoneNumber);
+    if (!verdict.allowed && callbackDeferral(verdict) === null) {
+      await reportBlockedCallback(sessionId, phoneNumber, verdict);
+      return res.status(422).json({ error: verdict.message, reason: verdict.reason });
+    }
+
+    const callerName = typeof req.body?.name === 'string' ? sanitizeName(req.body.name) : '';
+    const activated = await activateSession(sessionId, callerName || undefined);
+    if (!activated) {
+      return res.status(409).json({ error: 'This session has already started or expired' });
+    }
+
+    const result = await requestCallback(BROWSER_CALLBACK_CHANNEL, sessionId, phoneNumber, 'browser', verdict);
+
+    res.json({
+      success: true,
+      phoneNumber: maskPhone(phoneNumber),
+      ...('deferredUntil' in result && {
+        deferredUntil: result.deferredUntil.toISOString(),
+        message: result.message,
+      }),
+    });
+  } catch (error) {
+    console.error('Error requesting callback:', error);
+    res.status(500).json({ error: 'Failed to request callback' });
+  }
+});
+
+// "Call me again now" - place a scheduled callback retry immediately
+router.post('/session/:id/callback/retry-now', requireSessionAccess(['owner']), async (req: Request, res: Response) => {
+  try {
+    const retried = await retryCallbackNow(req.params.id as string);
+    if (!retried) {
+      return res.status(409).json({ error: 'No callback retry is scheduled' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error retrying callback:', error);
+    res.status(500).json({ error: 'Failed to retry callback' });
+  }
+});
+
+// Cancel a scheduled callback retry
+router.post('/session/:id/callback/cancel', requireSessionAccess(['owner']), async (req: Request, res: Response) => {
+  try {
+    const cancelled = await cancelCallbackRetry(req.params.id as string);
+    if (!cancelled) {
+      return res.status(409).json({ error: 'No callback retry is scheduled' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling callback:', error);
+    res.status(500).json({ error: 'Failed to cancel callback' });
+  }
+});
+
 // Health check
 router.get('/health', (_req: Request, res: Response) => {
   res.json({
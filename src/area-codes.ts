@@ -0,0 +1,167 @@
+/**
+ * North American area codes by time zone, for calling-hours checks, and by
+ * state or province, for local-presence caller IDs. Area codes that straddle
+ * a zone boundary are listed under each zone they cover.
+ */
+const ZONES: Record<string, string> = {
+  'America/New_York': `
+    201 202 203 207 212 215 216 220 223 226 227 229 231 234 239 240 248 249 252 260 263 267 269 272 276
+    283 289 301 302 304 305 313 315 317 321 324 326 329 330 332 336 339 343 347 351 352 354 363 365 367
+    380 382 386 401 404 407 410 412 413 416 418 419 423 434 436 437 438 440 443 445 448 450 463 468 470
+    472 475 478 484 502 508 513 514 516 517 518 519 540 548 551 561 567 570 571 574 579 581 582 585 586
+    603 606 607 609 610 613 614 616 617 624 631 640 645 646 647 656 667 678 679 680 681 683 689 703 704
+    705 706 716 717 718 724 727 728 732 734 740 742 743 753 754 757 762 765 770 771 772 774 781 786 802
+    803 804 807 810 812 813 814 819 821 826 828 835 838 839 843 845 848 850 854 856 857 859 860 862 863
+    864 865 873 878 904 905 906 908 910 912 914 917 919 929 930 931 934 937 941 942 943 947 948 954 959
+    973 978 980 984 989
+  `,
+  'America/Chicago': `
+    204 205 210 214 217 218 219 224 225 228 235 251 254 256 262 270 274 281 308 309 312 314 316 318 319
+    320 325 327 331 334 337 346 353 361 364 402 405 409 414 417 430 431 432 447 464 469 479 483 501 504
+    507 512 515 531 534 539 557 563 572 573 580 584 601 605 608 612 615 618 620 629 630 636 641 651 659
+    660 662 682 701 708 712 713 715 726 730 731 737 763 769 773 779 785 806 807 812 815 816 817 830 832
+    847 850 861 870 872 901 903 906 913 918 920 924 931 936 938 940 945 952 956 972 975 979 985
+  `,
+  'America/Regina': '306 474 639',
+  'America/Denver': `
+    208 303 307 308 368 385 403 406 435 505 541 575 587 605 620 701 719 720 780 785 801 825 915 970 983 986
+  `,
+  'America/Phoenix': '480 520 602 623 928',
+  'America/Los_Angeles': `
+    206 208 209 213 236 250 253 257 279 310 323 341 350 357 360 369 408 415 424 425 442 458 503 509 510
+    530 541 559 562 564 604 619 626 628 650 657 661 669 672 702 707 714 725 738 747 760 775 778 805 818
+    820 831 837 840 858 909 916 925 949 951 971 986
+  `,
+  'America/Whitehorse': '867',
+  'America/Edmonton': '867',
+  'America/Anchorage': '907',
+  'Pacific/Honolulu': '808',
+  'America/Halifax': '428 506 782 902',
+  'America/St_Johns': '709 879',
+  'America/Puerto_Rico': '787 939',
+  'America/St_Thomas': '340',
+  'Pacific/Guam': '671',
+  'Pacific/Saipan': '670',
+  'Pacific/Pago_Pago': '684',
+};
+
+const STATES: Record<string, string> = {
+  AL: '205 251 256 334 483 659 938',
+  AK: '907',
+  AZ: '480 520 602 623 928',
+  AR: '327 479 501 870',
+  CA: `209 213 279 310 323 341 350 357 369 408 415 424 442 510 530 559 562 619 626 628 650 657 661 669 707
+    714 738 747 760 805 818 820 831 837 840 858 909 916 925 949 951`,
+  CO: '303 719 720 970 983',
+  CT: '203 475 860 959',
+  DE: '302',
+  DC: '202 771',
+  FL: '239 305 321 324 352 386 407 448 561 645 656 689 727 728 754 772 786 813 850 863 904 941 954',
+  GA: '229 404 470 478 678 706 762 770 912 943',
+  HI: '808',
+  ID: '208 986',
+  IL: '217 224 309 312 331 447 464 618 630 708 730 773 779 815 847 861 872',
+  IN: '219 260 317 463 574 765 812 930',
+  IA: '319 515 563 641 712',
+  KS: '316 620 785 913',
+  KY: '270 364 502 606 859',
+  LA: '225 318 337 504 985',
+  ME: '207',
+  MD: '227 240 301 410 443 667',
+  MA: '339 351 413 508 617 774 781 857 978',
+  MI: '231 248 269 313 517 586 616 679 734 810 906 947 989',
+  MN: '218 320 507 612 651 763 924 952',
+  MS: '228 601 662 769',
+  MO: '235 314 417 557 573 636 660 816 975',
+  MT: '406',
+  NE: '308 402 531',
+  NV: '702 725 775',
+  NH: '603',
+  NJ: '201 551 609 640 732 848 856 862 908 973',
+  NM: '505 575',
+  NY: '212 315 329 332 347 363 516 518 585 607 624 631 646 680 716 718 838 845 914 917 929 934',
+  NC: '252 336 472 704 743 828 910 919 980 984',
+  ND: '701',
+  OH: '216 220 234 283 326 330 380 419 436 440 513 567 614 740 937',
+  OK: '405 539 572 580 918',
+  OR: '458 503 541 971',
+  PA: '215 223 267 272 412 445 484 570 582 610 717 724 814 835 878',
+  RI: '401',
+  SC: '803 821 839 843 854 864',
+  SD: '605',
+  TN: '423 615 629 731 865 901 931',
+  TX: `210 214 254 281 325 346 361 409 430 432 469 512 682 713 726 737 806 817 830 832 903 915 936 940 945
+    956 972 979`,
+  UT: '385 435 801',
+  VT: '802',
+  VA: '276 434 540 571 703 757 804 826 948',
+  WA: '206 253 360 425 509 564',
+  WV: '304 681',
+  WI: '262 274 353 414 534 608 715 920',
+  WY: '307',
+  PR: '787 939',
+  AB: '368 403 587 780 825',
+  BC: '236 250 257 604 672 778',
+  MB: '204 431 584',
+  NB: '428 506',
+  NL: '709 879',
+  NS: '782 902',
+  ON: '226 249 289 343 365 382 416 437 519 548 613 647 683 705 742 753 807 905 942',
+  QC: '263 354 367 418 438 450 468 514 579 581 819 873',
+  SK: '306 474 639',
+};
+
+const areaCodeZones = new Map<string, string[]>();
+for (const [zone, codes] of Object.entries(ZONES)) {
+  for (const code of codes.split(/\s+/).filter(Boolean)) {
+    areaCodeZones.set(code, [...(areaCodeZones.get(code) || []), zone]);
+  }
+}
+
+const areaCodeStates = new Map<string, string>();
+for (const [state, codes] of Object.entries(STATES)) {
+  for (const code of codes.split(/\s+/).filter(Boolean)) {
+    // Keeps the two tables from drifting apart: a code without a zone would
+    // be judged by the fallback zones' calling hours
+    if (!areaCodeZones.has(code)) {
+      throw new Error(`Area code ${code} (${state}) has no time zone`);
+    }
+    areaCodeStates.set(code, state);
+  }
+}
+
+/**
+ * Area code of a +1 number, or null if it isn't one.
+ */
+export function areaCodeOf(phoneNumber: string): string | null {
+  const match = phoneNumber.match(/^\+1(\d{3})\d{7}$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Two-letter state or province code for an area code, or null if unknown.
+ * 902/782 cover both Nova Scotia and PEI and are reported as NS.
+ */
+export function stateForAreaCode(areaCode: string | null): string | null {
+  return (areaCode && areaCodeStates.get(areaCode)) || null;
+}
+
+/**
+ * Time zones a +1 number may be in, or an empty list for an unknown area code.
+ */
+export function timeZonesForNumber(phoneNumber: string): string[] {
+  const areaCode = areaCodeOf(phoneNumber);
+  return areaCode ? areaCodeZones.get(areaCode) || [] : [];
+}
+
+/**
+ * Hour of day (0-23) at `date` in `timeZone`.
+ */
+export function localHour(timeZone: string, date = new Date()): number {
+  const hour = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).format(date);
+  return parseInt(hour, 10);
+}
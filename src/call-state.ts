@@ -0,0 +1,151 @@
+import { prisma } from './db.js';
+import { config } from './config.js';
+
+export type CallProvider = 'twilio' | 'retell';
+
+/**
+ * What we remember about a live call between webhooks. Keyed by Twilio
+ * CallSid or Retell call_id.
+ */
+export interface CallState {
+  callId: string;
+  provider: CallProvider;
+  sessionId?: string;
+  callerName?: string;
+  callerNumber?: string;
+  /** Flow step the call is on (see flow.ts) */
+  step?: string;
+  /** Attempts made at the current step */
+  attempts: number;
+  /** Callback number heard but not yet confirmed by the caller */
+  callbackNumber?: string;
+  /** Live pair code close to what was heard, waiting for the caller to confirm it */
+  pairCode?: string;
+  /** Sales rep the callback is being transferred to */
+  transferRepId?: string;
+}
+
+export interface CallStateStore {
+  get(callId: string): Promise<CallState | null>;
+  set(state: CallState): Promise<void>;
+  delete(callId: string): Promise<void>;
+  /** Drop state for calls that outlived the TTL, returning how many were removed */
+  cleanupExpired(): Promise<number>;
+}
+
+/**
+ * Database-backed store so call state survives restarts and is shared between
+ * instances. Every write pushes the expiry out by the TTL.
+ */
+export class PrismaCallStateStore implements CallStateStore {
+  constructor(private readonly ttlMs: number) {}
+
+  async get(callId: string): Promise<CallState | null> {
+    const call = await prisma.call.findUnique({ where: { id: callId } });
+    if (!call || call.expiresAt < new Date()) {
+      return null;
+    }
+
+    return {
+      callId: call.id,
+      provider: call.provider as CallProvider,
+      sessionId: call.sessionId ?? undefined,
+      callerName: call.callerName ?? undefined,
+      callerNumber: call.callerNumber ?? undefined,
+      step: call.step ?? undefined,
+      attempts: call.attempts,
+      callbackNumber: call.callbackNumber ?? undefined,
+      pairCode: call.pairCode ?? undefined,
+      transferRepId: call.transferRepId ?? undefined,
+    };
+  }
+
+  async set(state: CallState): Promise<void> {
+    const data = {
+      provider: state.provider,
+      sessionId: state.sessionId ?? null,
+      callerName: state.callerName ?? null,
+      callerNumber: state.callerNumber ?? null,
+      step: state.step ?? null,
+      attempts: state.attempts,
+      callbackNumber: state.callbackNumber ?? null,
+      pairCode: state.pairCode ?? null,
+      transferRepId: state.transferRepId ?? null,
+      expiresAt: new Date(Date.now() + this.ttlMs),
+    };
+
+    await prisma.call.upsert({
+      where: { id: state.callId },
+      create: { id: state.callId, ...data },
+      update: data,
+    });
+  }
+
+  async delete(callId: string): Promise<void> {
+    await prisma.call.deleteMany({ where: { id: callId } });
+  }
+
+  async cleanupExpired(): Promise<number> {
+    const result = await prisma.call.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return result.count;
+  }
+}
+
+/**
+ * Process-local store for tests and single-instance local development.
+ */
+export class MemoryCallStateStore implements CallStateStore {
+  private readonly calls = new Map<string, { state: CallState; expiresAt: number }>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  async get(callId: string): Promise<CallState | null> {
+    const entry = this.calls.get(callId);
+    if (!entry || entry.expiresAt < Date.now()) {
+      return null;
+    }
+    return { ...entry.state };
+  }
+
+  async set(state: CallState): Promise<void> {
+    this.calls.set(state.callId, {
+      state: { ...state },
+      expiresAt: Date.now() + this.ttlMs,
+    });
+  }
+
+  async delete(callId: string): Promise<void> {
+    this.calls.delete(callId);
+  }
+
+  async cleanupExpired(): Promise<number> {
+    const now = Date.now();
+    let count = 0;
+    for (const [callId, entry] of this.calls) {
+      if (entry.expiresAt < now) {
+        this.calls.delete(callId);
+        count++;
+      }
+    }
+    return count;
+  }
+}
+
+export function createCallStateStore(): CallStateStore {
+  const ttlMs = config.callState.ttlMinutes * 60 * 1000;
+  return config.callState.store === 'memory'
+    ? new MemoryCallStateStore(ttlMs)
+    : new PrismaCallStateStore(ttlMs);
+}
+
+export const callStateStore = createCallStateStore();
+
+/**
+ * Fetch state for a call, or a blank record if we haven't seen it yet
+ * (e.g. its first webhook was handled by another instance before a deploy).
+ */
+export async function loadCallState(callId: string, provider: CallProvider): Promise<CallState> {
+  return await callStateStore.get(callId) || { callId, provider, attempts: 0 };
+}
@@ -0,0 +1,431 @@
+import { config } from './config.js';
+import { prisma } from './db.js';
+import { createEvent, getSession, updateSessionPhone } from './session.js';
+import { publishEvent } from './events.js';
+import {
+  enqueueJob,
+  registerJobHandler,
+  runPendingJobsNow,
+  cancelPendingJobs,
+  JobDeferredError,
+} from './jobs.js';
+import {
+  checkDestination,
+  reserveDialSlot,
+  confirmDialSlot,
+  releaseDialSlot,
+  updateOutboundCallStatus,
+  DestinationVerdict,
+} from './destination-policy.js';
+import { CallProvider } from './call-state.js';
+import {
+  VoiceProvider,
+  VoiceProviderName,
+  CallStatus,
+  CallStatusEvent,
+  TwilioVoiceProvider,
+  RetellVoiceProvider,
+  FakeVoiceProvider,
+} from './voice-provider.js';
+import { maskPhone } from './phone.js';
+import { selectCallerId, describeCallerIdMatch } from './caller-id-pool.js';
+
+// Give the caller a moment to hang up before we ring them back
+const CALLBACK_DELAY_MS = 3000;
+
+// Wait before trying again when every line is busy
+const CAPACITY_RETRY_MS = 15 * 1000;
+
+// Wait before replaying a status that arrived before its call was recorded
+const STATUS_REPLAY_MS = 2000;
+
+// Statuses that mean the callee never picked up
+const FAILED_STATUSES: CallStatus[] = ['busy', 'no-answer', 'failed', 'canceled'];
+
+const providers: Partial<Record<VoiceProviderName, VoiceProvider>> = {};
+
+/**
+ * Provider that places callbacks for calls that came in on `channel` -
+ * the same one, unless VOICE_PROVIDER overrides it.
+ */
+export function getVoiceProvider(channel: CallProvider): VoiceProvider {
+  const name = (config.voice.provider || channel) as VoiceProviderName;
+
+  if (!providers[name]) {
+    switch (name) {
+      case 'fake':
+        providers[name] = new FakeVoiceProvider({
+          outcome: config.voice.fake.outcome as CallStatus,
+          stepMs: config.voice.fake.stepMs,
+          talkMs: config.voice.fake.talkMs,
+        }, handleCallStatus);
+        break;
+      case 'retell':
+        providers[name] = new RetellVoiceProvider();
+        break;
+      default:
+        providers[name] = new TwilioVoiceProvider();
+    }
+  }
+
+  return providers[name]!;
+}
+
+const PLACE_CALLBACK_JOB = 'place_callback';
+
+interface CallbackJobPayload {
+  channel: CallProvider;
+  sessionId: string;
+  /** 1 for the first dial, 2 for the first retry, ... */
+  attempt: number;
+}
+
+// One key per attempt so duplicate failure webhooks can't queue a retry twice
+function callbackJobKey(sessionId: string, attempt: number): string {
+  return attempt > 1 ? callbackRetryKey(sessionId, attempt) : `callback:${sessionId}:${attempt}`;
+}
+
+// Retries get their own prefix so retry-now and cancel can't reach the first
+// dial, or one held for calling hours
+function callbackRetryKey(sessionId: string, attempt?: number): string {
+  return `callback-retry:${sessionId}:${attempt ?? ''}`;
+}
+
+export type CallbackNumberSource = 'caller_id' | 'spoken' | 'browser';
+
+type BlockedVerdict = Extract<DestinationVerdict, { allowed: false }>;
+
+/** A callback queued to go out once the destination's calling hours open */
+export interface DeferredCallback {
+  allowed: true;
+  deferredUntil: Date;
+  message: string;
+}
+
+/**
+ * How long to hold a callback refused for calling hours, or null if hours
+ * open too far off and it should be refused outright.
+ */
+export function callbackDeferral(verdict: DestinationVerdict): number | null {
+  if (verdict.allowed || verdict.reason !== 'outside_calling_hours' || !verdict.opensAt) {
+    return null;
+  }
+
+  const delayMs = verdict.opensAt.getTime() - Date.now();
+  return delayMs <= config.callingHours.maxDeferMinutes * 60 * 1000 ? Math.max(delayMs, 0) : null;
+}
+
+/**
+ * Take the number to call back on - spoken into the inbound call or typed in
+ * the browser - show the dialer preparing and queue the first dial. Numbers
+ * the destination policy refuses are reported as `callback_blocked` instead,
+ * unless calling hours open soon, in which case the dial waits for them.
+ * Pass `checked` when the caller has just run checkDestination itself, so
+ * the number can't be refused here after the caller acted on that verdict.
+ */
+export async function requestCallback(
+  channel: CallProvider,
+  sessionId: string,
+  phoneNumber: string,
+  source: CallbackNumberSource,
+  checked?: DestinationVerdict
+): Promise<DestinationVerdict | DeferredCallback> {
+  const verdict = checked || await checkDestination(phoneNumber);
+  const deferMs = callbackDeferral(verdict);
+  if (!verdict.allowed && deferMs === null) {
+    await reportBlockedCallback(sessionId, phoneNumber, verdict);
+    return verdict;
+  }
+
+  await updateSessionPhone(sessionId, phoneNumber);
+
+  await publishEvent(sessionId, 'callback_preparing', {
+    phoneNumber: maskPhone(phoneNumber),
+    source,
+  });
+
+  if (deferMs === null) {
+    await scheduleCallback(channel, sessionId);
+    return verdict;
+  }
+
+  await scheduleCallback(channel, sessionId, 1, deferMs);
+  const deferred = await reportDeferredCallback(sessionId, phoneNumber, deferMs);
+  return { allowed: true, ...deferred };
+}
+
+/**
+ * Tell the browser a callback number was refused, and why.
+ */
+export async function reportBlockedCallback(
+  sessionId: string,
+  phoneNumber: string,
+  verdict: BlockedVerdict
+) {
+  console.warn(`Callback to ${maskPhone(phoneNumber)} blocked: ${verdict.reason}`);
+  await publishEvent(sessionId, 'callback_blocked', {
+    phoneNumber: maskPhone(phoneNumber),
+    reason: verdict.reason,
+    message: verdict.message,
+  });
+}
+
+/**
+ * Tell the browser a callback is waiting for calling hours to open.
+ */
+async function reportDeferredCallback(sessionId: string, phoneNumber: string, delayMs: number) {
+  const deferredUntil = new Date(Date.now() + delayMs);
+  const minutes = Math.max(Math.ceil(delayMs / 60000), 1);
+  const message = `It's just before our calling hours where you are, so I'll call you back in about ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+
+  console.log(`Callback to ${maskPhone(phoneNumber)} deferred until ${deferredUntil.toISOString()}`);
+  await publishEvent(sessionId, 'callback_deferred', {
+    phoneNumber: maskPhone(phoneNumber),
+    reason: 'outside_calling_hours',
+    message,
+    retryAt: deferredUntil.toISOString(),
+  });
+
+  return { deferredUntil, message };
+}
+
+/**
+ * Dial the caller back shortly after the inbound call ends, at the number
+ * stored on the session. Queued as a job so a restart in the meantime
+ * doesn't drop the callback.
+ */
+export async function scheduleCallback(
+  channel: CallProvider,
+  sessionId: string,
+  attempt = 1,
+  delayMs = CALLBACK_DELAY_MS
+) {
+  const payload: CallbackJobPayload = { channel, sessionId, attempt };
+
+  await enqueueJob(PLACE_CALLBACK_JOB, { ...payload }, {
+    delayMs,
+    // A retry after a partial failure could ring the caller twice, so only one
+    maxAttempts: 2,
+    key: callbackJobKey(sessionId, attempt),
+  });
+}
+
+registerJobHandler(PLACE_CALLBACK_JOB, async (payload) => {
+  const { channel, sessionId, attempt } = payload as unknown as CallbackJobPayload;
+  await placeCallback(getVoiceProvider(channel), channel, sessionId, attempt);
+}, {
+  onDead: async (payload) => {
+    await publishEvent(payload.sessionId as string, 'callback_failed', {
+      error: 'Failed to place call',
+    });
+  },
+});
+
+async function placeCallback(
+  provider: VoiceProvider,
+  channel: CallProvider,
+  sessionId: string,
+  attempt: number
+) {
+  const session = await getSession(sessionId);
+  if (!session) {
+    throw new Error('Session not found');
+  }
+  if (!session.callerNumber) {
+    throw new Error('Session has no callback number');
+  }
+
+  const phoneNumber = session.callerNumber;
+  const callerName = session.callerName || 'there';
+
+  // Checked again at dial time - caps may have filled, the number may have
+  // been listed or a retry may have drifted out of calling hours
+  const verdict = await checkDestination(phoneNumber);
+  if (!verdict.allowed) {
+    const deferMs = callbackDeferral(verdict);
+    if (deferMs !== null) {
+      await reportDeferredCallback(sessionId, phoneNumber, deferMs);
+      throw new JobDeferredError(deferMs, 'Outside calling hours');
+    }
+    await reportBlockedCallback(sessionId, phoneNumber, verdict);
+    return;
+  }
+
+  // The caps are enforced here; checkDestination above only reads them
+  const slot = await reserveDialSlot({ provider: provider.name, sessionId, toNumber: phoneNumber });
+  if (!slot.reserved) {
+    if (slot.verdict) {
+      await reportBlockedCallback(sessionId, phoneNumber, slot.verdict);
+      return;
+    }
+    throw new JobDeferredError(CAPACITY_RETRY_MS, 'Concurrent callback limit reached');
+  }
+
+  let callerId;
+  let call;
+  try {
+    await publishEvent(sessionId, 'callback_dialing', {
+      phoneNumber: maskPhone(phoneNumber),
+      callerName,
+      attempt,
+    });
+
+    callerId = await selectCallerId(phoneNumber);
+    await publishEvent(sessionId, 'local_presence_selected', {
+      callerId: callerId.phoneNumber,
+      match: callerId.match,
+      areaCode: callerId.areaCode,
+      state: callerId.state,
+      reason: describeCallerIdMatch(callerId),
+    });
+
+    call = await provider.placeCall({
+      sessionId,
+      toNumber: phoneNumber,
+      fromNumber: callerId.phoneNumber,
+      callerName,
+    });
+  } catch (error) {
+    await releaseDialSlot(slot.id);
+    throw error;
+  }
+
+  // Read back by scheduleRetry to find which attempt a failed call was.
+  // Written before the call is moved onto its id, so a status replayed once
+  // it has been always finds it
+  await createEvent(sessionId, 'callback_initiated', {
+    provider: provider.name,
+    channel,
+    callId: call.callId,
+    attempt,
+    timestamp: new Date().toISOString(),
+  });
+
+  await confirmDialSlot(slot.id, call.callId, callerId.phoneNumber);
+
+  if (call.status) {
+    await handleCallStatus(sessionId, { callId: call.callId, status: call.status });
+  }
+
+  console.log(`Callback ${attempt} initiated via ${provider.name}: ${call.callId} to ${maskPhone(phoneNumber)} from ${callerId.phoneNumber} (${callerId.match})`);
+}
+
+/**
+ * Turn a callback's progress, from whichever provider placed it, into
+ * session events for the dialer UI.
+ */
+export async function handleCallStatus(sessionId: string, event: CallStatusEvent) {
+  console.log(`Callback ${event.callId} status: ${event.status}`);
+
+  if (!await updateOutboundCallStatus(event.callId, event.status, event.durationSeconds)) {
+    // The provider can report on a call before placeCall has returned and the
+    // call is recorded - replay the status once it is
+    await enqueueJob(REPLAY_CALL_STATUS_JOB, { sessionId, event: { ...event } }, {
+      delayMs: STATUS_REPLAY_MS,
+      maxAttempts: 5,
+      key: `call-status:${event.callId}:${event.status}`,
+    });
+    return;
+  }
+
+  await publishCallStatus(sessionId, event);
+}
+
+const REPLAY_CALL_STATUS_JOB = 'replay_call_status';
+
+interface CallStatusReplayPayload {
+  sessionId: string;
+  event: CallStatusEvent;
+}
+
+registerJobHandler(REPLAY_CALL_STATUS_JOB, async (payload) => {
+  const { sessionId, event } = payload as unknown as CallStatusReplayPayload;
+  if (!await updateOutboundCallStatus(event.callId, event.status, event.durationSeconds)) {
+    throw new Error(`Callback ${event.callId} not recorded yet`);
+  }
+  await publishCallStatus(sessionId, event);
+});
+
+async function publishCallStatus(sessionId: string, event: CallStatusEvent) {
+  if (event.status === 'ringing') {
+    await publishEvent(sessionId, 'callback_ringing', { callId: event.callId });
+  } else if (event.status === 'answered') {
+    const session = await getSession(sessionId);
+    await publishEvent(sessionId, 'callback_answered', {
+      callId: event.callId,
+      callerName: session?.callerName || 'there',
+    });
+  } else if (event.status === 'voicemail') {
+    await publishEvent(sessionId, 'callback_voicemail', { callId: event.callId });
+  } else if (FAILED_STATUSES.includes(event.status)) {
+    const retry = await scheduleRetry(sessionId, event);
+
+    await publishEvent(sessionId, 'callback_failed', {
+      callId: event.callId,
+      status: event.status,
+      ...(event.reason && { reason: event.reason }),
+      willRetry: Boolean(retry),
+    });
+
+    if (retry) {
+      await publishEvent(sessionId, 'callback_retry_scheduled', retry);
+    }
+  }
+}
+
+/**
+ * Queue the next attempt after a failed callback, if the retry policy allows
+ * one. Returns what the browser needs for its countdown.
+ */
+async function scheduleRetry(sessionId: string, event: CallStatusEvent) {
+  const policy = config.callbackRetry;
+  if (!policy.retryOn.includes(event.status)) {
+    return null;
+  }
+
+  const initiated = await prisma.event.findFirst({
+    where: {
+      sessionId,
+      type: 'callback_initiated',
+      value: { path: ['callId'], equals: event.callId },
+    },
+  });
+  if (!initiated) {
+    return null;
+  }
+
+  const { attempt, channel } = initiated.value as { attempt?: number; channel?: CallProvider };
+  const previous = attempt || 1;
+  if (previous >= policy.maxAttempts) {
+    return null;
+  }
+
+  const delaySeconds = Math.round(policy.delaySeconds * policy.backoffMultiplier ** (previous - 1));
+  await scheduleCallback(channel || 'twilio', sessionId, previous + 1, delaySeconds * 1000);
+
+  return {
+    attempt: previous + 1,
+    maxAttempts: policy.maxAttempts,
+    delaySeconds,
+    retryAt: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+  };
+}
+
+/**
+ * Place a scheduled retry right away. Returns false if none is pending.
+ */
+export async function retryCallbackNow(sessionId: string): Promise<boolean> {
+  const count = await runPendingJobsNow(callbackRetryKey(sessionId));
+  return count > 0;
+}
+
+/**
+ * Drop a scheduled retry. Returns false if none is pending.
+ */
+export async function cancelCallbackRetry(sessionId: string): Promise<boolean> {
+  const count = await cancelPendingJobs(callbackRetryKey(sessionId));
+  if (count > 0) {
+    await publishEvent(sessionId, 'callback_cancelled');
+  }
+  return count > 0;
+}
@@ -0,0 +1,93 @@
+import { OutboundNumber } from '@prisma/client';
+import { prisma } from './db.js';
+import { config } from './config.js';
+import { areaCodeOf, stateForAreaCode } from './area-codes.js';
+
+/**
+ * Local-presence caller IDs. People answer local numbers far more often than
+ * out-of-area ones, so each callback goes out from a pool number sharing the
+ * callee's area code, or failing that their state, before falling back to
+ * TWILIO_PHONE_NUMBER.
+ */
+
+export type CallerIdMatch = 'area_code' | 'state' | 'default';
+
+export interface CallerIdSelection {
+  phoneNumber: string;
+  match: CallerIdMatch;
+  /** Callee's area code and state, as the match was judged */
+  areaCode: string | null;
+  state: string | null;
+}
+
+/**
+ * Pick the caller ID for a callback to `toNumber` and count the use. Among
+ * equally good healthy numbers the least recently used wins, spreading
+ * volume across the pool.
+ */
+export async function selectCallerId(toNumber: string): Promise<CallerIdSelection> {
+  const areaCode = areaCodeOf(toNumber);
+  const state = stateForAreaCode(areaCode);
+
+  const candidates: Array<[CallerIdMatch, { areaCode?: string; state?: string } | null]> = [
+    ['area_code', areaCode ? { areaCode } : null],
+    ['state', state ? { state } : null],
+  ];
+
+  for (const [match, where] of candidates) {
+    if (!where) continue;
+
+    const number = await prisma.outboundNumber.findFirst({
+      where: { ...where, healthy: true },
+      orderBy: [{ lastUsedAt: { sort: 'asc', nulls: 'first' } }, { callCount: 'asc' }],
+    });
+
+    if (number) {
+      await prisma.outboundNumber.update({
+        where: { id: number.id },
+        data: { callCount: { increment: 1 }, lastUsedAt: new Date() },
+      });
+      return { phoneNumber: number.phoneNumber, match, areaCode, state };
+    }
+  }
+
+  return { phoneNumber: config.twilio.phoneNumber, match: 'default', areaCode, state };
+}
+
+/**
+ * Add a number to the pool, deriving its area code and state.
+ */
+export async function addOutboundNumber(phoneNumber: string): Promise<OutboundNumber> {
+  const areaCode = areaCodeOf(phoneNumber);
+  if (!areaCode) {
+    throw new Error('Pool numbers must be +1 numbers');
+  }
+
+  return prisma.outboundNumber.upsert({
+    where: { phoneNumber },
+    create: { phoneNumber, areaCode, state: stateForAreaCode(areaCode) },
+    update: {},
+  });
+}
+
+/**
+ * Returns false if the number wasn't in the pool.
+ */
+export async function removeOutboundNumber(phoneNumber: string): Promise<boolean> {
+  const result = await prisma.outboundNumber.deleteMany({ where: { phoneNumber } });
+  return result.count > 0;
+}
+
+/**
+ * Why a caller ID was picked, for the browser.
+ */
+export function describeCallerIdMatch(selection: CallerIdSelection): string {
+  switch (selection.match) {
+    case 'area_code':
+      return `Local number - same ${selection.areaCode} area code as the lead`;
+    case 'state':
+      return `In-state number - the lead is in ${selection.state}`;
+    default:
+      return 'No local number available - using the main line';
+  }
+}
@@ -0,0 +1,59 @@
+import twilio from 'twilio';
+import { config } from './config.js';
+import { normalizePhoneNumber } from './phone.js';
+import { checkDestinationRules } from './destination-policy.js';
+import { isOnDoNotCallList } from './do-not-call.js';
+
+// Toll-free and premium-rate area codes - never a person's own line
+const NON_PERSONAL_AREA_CODES = ['800', '833', '844', '855', '866', '877', '888', '900'];
+
+// Line types we're willing to call back on
+const CALLABLE_LINE_TYPES = ['mobile', 'landline'];
+
+// Twilio lookup client, created on first use
+let lookupClient: ReturnType<typeof twilio> | null = null;
+
+function getLookupClient() {
+  if (!lookupClient) {
+    lookupClient = twilio(config.twilio.accountSid, config.twilio.authToken);
+  }
+  return lookupClient;
+}
+
+/**
+ * Whether the inbound caller ID can be offered as the callback number.
+ * Withheld caller IDs ("anonymous", "+266696687" and friends) fail the E.164
+ * check. Numbers the destination policy blocks or on the do-not-call list
+ * aren't offered only to be refused. Twilio Lookup must also report a mobile
+ * or landline number, so with CALLER_ID_LOOKUP off nothing is offered.
+ */
+export async function isOfferableCallerId(callerNumber: string | undefined): Promise<boolean> {
+  const normalized = normalizePhoneNumber(callerNumber || '');
+  if (!normalized || normalized !== callerNumber) {
+    return false;
+  }
+
+  if (NON_PERSONAL_AREA_CODES.includes(normalized.slice(2, 5))) {
+    return false;
+  }
+
+  if (!checkDestinationRules(normalized).allowed || await isOnDoNotCallList(normalized)) {
+    return false;
+  }
+
+  if (!config.callerId.lookup) {
+    return false;
+  }
+
+  try {
+    const result = await getLookupClient().lookups.v2
+      .phoneNumbers(normalized)
+      .fetch({ fields: 'line_type_intelligence' });
+
+    return result.valid && CALLABLE_LINE_TYPES.includes(result.lineTypeIntelligence?.type || '');
+  } catch (error) {
+    // Fall back to spoken entry rather than guess
+    console.error('Caller ID lookup failed:', error);
+    return false;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Wordlist for word-based pair codes ("river-maple"). Words are short, common
+ * and picked to sound unlike each other over the phone: no homophones, no
+ * rhyming pairs, no pairs a single sound apart (robin/ribbon, willow/window),
+ * no words that are another word plus an "s", and no compounds a recogniser
+ * might split.
+ */
+export const CODE_WORDS = [
+  'apple', 'arrow', 'badger', 'bamboo', 'banjo', 'basket', 'beacon', 'bison',
+  'blossom', 'bridge', 'bucket', 'cactus', 'camel', 'candle', 'canyon', 'carrot',
+  'castle', 'cedar', 'cherry', 'cobalt', 'comet', 'coral', 'cotton', 'crystal',
+  'daisy', 'dolphin', 'dragon', 'eagle', 'ember', 'falcon', 'feather', 'fiddle',
+  'forest', 'fossil', 'galaxy', 'garden', 'ginger', 'glacier', 'granite', 'harbor',
+  'hazel', 'helmet', 'honey', 'island', 'ivory', 'jacket', 'jasmine', 'jungle',
+  'kettle', 'koala', 'ladder', 'lemon', 'lizard', 'lobster', 'magnet', 'mango',
+  'maple', 'marble', 'meadow', 'monkey', 'muffin', 'nectar', 'noodle', 'oasis',
+  'olive', 'orbit', 'otter', 'panda', 'pepper', 'pickle', 'pilot', 'planet',
+  'puzzle', 'rabbit', 'raven', 'river', 'robin', 'rocket', 'saddle', 'salmon',
+  'silver', 'spider', 'summit', 'tiger', 'tomato', 'tulip', 'turtle', 'velvet',
+  'violin', 'walnut', 'willow', 'zebra',
+] as const;
+
+/**
+ * What speech recognition tends to hear instead of a code word. Plurals and
+ * words split in two ("man go") are handled by the parser.
+ */
+export const CODE_WORD_HOMOPHONES: Record<string, string> = {
+  badge: 'badger',
+  bizon: 'bison',
+  candel: 'candle',
+  carat: 'carrot',
+  caret: 'carrot',
+  karat: 'carrot',
+  seeder: 'cedar',
+  ceder: 'cedar',
+  comment: 'comet',
+  choral: 'coral',
+  corral: 'coral',
+  daisey: 'daisy',
+  fidel: 'fiddle',
+  fossel: 'fossil',
+  harbour: 'harbor',
+  hazle: 'hazel',
+  kettel: 'kettle',
+  lemmon: 'lemon',
+  lobstah: 'lobster',
+  mapel: 'maple',
+  marbel: 'marble',
+  medow: 'meadow',
+  odder: 'otter',
+  pickel: 'pickle',
+  robbin: 'robin',
+  sadle: 'saddle',
+  salmen: 'salmon',
+  samon: 'salmon',
+  velvit: 'velvet',
+  viola: 'violin',
+  willo: 'willow',
+};
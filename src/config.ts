@@ -2,6 +2,11 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Signs session refs and subscription tokens. The fallback (and the
+// .env.example placeholder) are public, so production refuses them.
+const DEFAULT_SESSION_SECRET = 'dev-secret-change-in-production';
+const EXAMPLE_SESSION_SECRET = 'your-secret-key-change-in-production';
+
 export const config = {
   port: parseInt(process.env.PORT || '3000', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -24,15 +29,130 @@ export const config = {
   },
 
   session: {
-    secret: process.env.SESSION_SECRET || 'dev-secret-change-in-production',
+    secret: process.env.SESSION_SECRET || DEFAULT_SESSION_SECRET,
     expiryMinutes: parseInt(process.env.SESSION_EXPIRY_MINUTES || '10', 10),
     pairedExpiryMinutes: parseInt(process.env.PAIRED_SESSION_EXPIRY_MINUTES || '30', 10),
   },
 
+  pairCodes: {
+    // 'digits' (4827, default) or 'words' (river-maple) of `words` words from src/code-words.ts
+    format: process.env.PAIR_CODE_FORMAT || 'digits',
+    words: parseInt(process.env.PAIR_CODE_WORDS || '2', 10),
+    // Share of the pair code pool in use before the cleanup job warns
+    warnUtilization: parseFloat(process.env.PAIR_CODE_WARN_UTILIZATION || '0.8'),
+    // Ask again, rather than failing, when a code that matched nothing is one
+    // digit away from a live code
+    fuzzyMatch: process.env.PAIR_CODE_FUZZY_MATCH !== 'false',
+  },
+
+  callState: {
+    // 'database' (default) or 'memory' for tests and single-instance dev
+    store: process.env.CALL_STATE_STORE || 'database',
+    ttlMinutes: parseInt(process.env.CALL_STATE_TTL_MINUTES || '60', 10),
+  },
+
+  voice: {
+    // Override who places callbacks: 'twilio', 'retell' or 'fake'. Unset keeps
+    // the provider that handled the inbound call.
+    provider: process.env.VOICE_PROVIDER || '',
+    fake: {
+      // answered | voicemail | busy | no-answer | failed
+      outcome: process.env.FAKE_CALL_OUTCOME || 'answered',
+      stepMs: parseInt(process.env.FAKE_CALL_STEP_MS || '2000', 10),
+      talkMs: parseInt(process.env.FAKE_CALL_TALK_MS || '15000', 10),
+    },
+  },
+
+  voicemail: {
+    // Answering machine detection on callbacks (billed per call by Twilio)
+    detection: process.env.VOICEMAIL_DETECTION !== 'false',
+    // Recording to leave as the voicemail drop; the message below is spoken if unset
+    audioUrl: process.env.VOICEMAIL_AUDIO_URL || '',
+    message: process.env.VOICEMAIL_MESSAGE
+      || 'Hi, this is PhoneBurner calling you back from our power dialer demo. Sorry we missed you! Visit the demo page anytime to try it again.',
+  },
+
+  transfer: {
+    // How long a rep's phone rings before the transfer is given up
+    ringTimeoutSeconds: parseInt(process.env.TRANSFER_RING_TIMEOUT_SECONDS || '20', 10),
+  },
+
+  callerId: {
+    // Check the inbound number's line type with Twilio Lookup before offering
+    // it. With this off the caller ID is never offered.
+    lookup: process.env.CALLER_ID_LOOKUP !== 'false',
+  },
+
+  destinationPolicy: {
+    // Country calling codes callbacks may dial (prefix match on E.164)
+    allowedCountryCodes: (process.env.CALLBACK_ALLOWED_COUNTRY_CODES || '1').split(',').map(s => s.trim()).filter(Boolean),
+    // Extra E.164 prefixes to refuse, on top of premium-rate and Caribbean +1 codes
+    blockedPrefixes: (process.env.CALLBACK_BLOCKED_PREFIXES || '').split(',').map(s => s.trim()).filter(Boolean),
+    maxPerDestinationPerDay: parseInt(process.env.CALLBACK_MAX_PER_NUMBER_PER_DAY || '5', 10),
+    maxConcurrent: parseInt(process.env.CALLBACK_MAX_CONCURRENT || '10', 10),
+  },
+
+  callingHours: {
+    // Local hours (0-24) callbacks may be placed in, judged by the destination's area code
+    start: parseInt(process.env.CALLING_HOURS_START || '8', 10),
+    end: parseInt(process.env.CALLING_HOURS_END || '21', 10),
+    // Zones that must all be inside hours when the area code isn't known
+    fallbackTimeZones: (process.env.CALLING_HOURS_FALLBACK_TIME_ZONES || 'America/New_York,America/Los_Angeles').split(',').map(s => s.trim()).filter(Boolean),
+    // Hold a callback until hours open if that's at most this far off; refuse it otherwise
+    maxDeferMinutes: parseInt(process.env.CALLING_HOURS_MAX_DEFER_MINUTES || '30', 10),
+  },
+
+  admin: {
+    // Bearer token for /api/admin. Unset disables the admin API.
+    apiKey: process.env.ADMIN_API_KEY || '',
+  },
+
+  numberHealth: {
+    checkIntervalSeconds: parseInt(process.env.NUMBER_HEALTH_CHECK_INTERVAL_SECONDS || '300', 10),
+    // Rates over the last day are judged once this many calls have finished
+    minCalls: parseInt(process.env.NUMBER_HEALTH_MIN_CALLS || '10', 10),
+    minAnswerRate: parseFloat(process.env.NUMBER_HEALTH_MIN_ANSWER_RATE || '0.2'),
+    // Answered calls shorter than this count as short - often a hang-up on a spam label
+    shortCallSeconds: parseInt(process.env.NUMBER_HEALTH_SHORT_CALL_SECONDS || '10', 10),
+    maxShortCallRate: parseFloat(process.env.NUMBER_HEALTH_MAX_SHORT_CALL_RATE || '0.5'),
+    maxDailyCalls: parseInt(process.env.NUMBER_HEALTH_MAX_DAILY_CALLS || '100', 10),
+    // How long an unhealthy number is kept out of the pool
+    restHours: parseInt(process.env.NUMBER_HEALTH_REST_HOURS || '24', 10),
+  },
+
+  callbackRetry: {
+    // Total dials per callback, including the first
+    maxAttempts: parseInt(process.env.CALLBACK_MAX_ATTEMPTS || '3', 10),
+    // Wait before the first retry; each later retry waits backoffMultiplier times longer
+    delaySeconds: parseInt(process.env.CALLBACK_RETRY_DELAY_SECONDS || '30', 10),
+    backoffMultiplier: parseFloat(process.env.CALLBACK_RETRY_BACKOFF || '2'),
+    retryOn: (process.env.CALLBACK_RETRY_ON || 'busy,no-answer').split(',').map(s => s.trim()),
+  },
+
+  jobs: {
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10),
+    // A job locked longer than this is assumed to belong to a dead worker
+    lockTimeoutSeconds: parseInt(process.env.JOB_LOCK_TIMEOUT_SECONDS || '300', 10),
+  },
+
+  webhooks: {
+    // Local development and tests only - ignored when NODE_ENV=production
+    skipSignatureValidation: process.env.SKIP_WEBHOOK_SIGNATURE_VALIDATION === 'true',
+  },
+
   rateLimit: {
     maxAttempts: parseInt(process.env.MAX_PAIRING_ATTEMPTS || '3', 10),
     lockoutSeconds: parseInt(process.env.LOCKOUT_DURATION_SECONDS || '60', 10),
   },
+
+  pairGuard: {
+    // Failed code guesses across all callers within the sliding window before
+    // guessing is paused for everyone, or for one code
+    windowSeconds: parseInt(process.env.PAIR_GUARD_WINDOW_SECONDS || '300', 10),
+    maxFailures: parseInt(process.env.PAIR_GUARD_MAX_FAILURES || '30', 10),
+    maxCodeFailures: parseInt(process.env.PAIR_GUARD_MAX_CODE_FAILURES || '5', 10),
+    coolOffSeconds: parseInt(process.env.PAIR_GUARD_COOL_OFF_SECONDS || '120', 10),
+  },
 };
 
 export function validateConfig(): void {
@@ -60,6 +180,50 @@ export function validateConfig(): void {
   if (missing.length > 0) {
     console.warn(`Warning: Missing environment variables: ${missing.join(', ')}`);
   }
+
+  if (
+    config.nodeEnv === 'production' &&
+    [DEFAULT_SESSION_SECRET, EXAMPLE_SESSION_SECRET].includes(config.session.secret)
+  ) {
+    throw new Error('SESSION_SECRET must be set to a private random value in production');
+  }
+
+  if (!['digits', 'words'].includes(config.pairCodes.format)) {
+    throw new Error(`Unknown PAIR_CODE_FORMAT: ${config.pairCodes.format}`);
+  }
+
+  if (config.pairCodes.format === 'words' && ![2, 3].includes(config.pairCodes.words)) {
+    throw new Error('PAIR_CODE_WORDS must be 2 or 3');
+  }
+
+  if (config.voice.provider && !['twilio', 'retell', 'fake'].includes(config.voice.provider)) {
+    throw new Error(`Unknown VOICE_PROVIDER: ${config.voice.provider}`);
+  }
+
+  if (config.voice.provider === 'fake') {
+    console.warn(`Warning: Callbacks use the fake voice provider (outcome: ${config.voice.fake.outcome})`);
+  }
+
+  const { start, end, fallbackTimeZones } = config.callingHours;
+  if (!(start >= 0 && end <= 24 && start < end)) {
+    throw new Error(`Invalid calling hours: ${start}-${end}`);
+  }
+
+  for (const zone of fallbackTimeZones) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    } catch {
+      throw new Error(`Unknown time zone in CALLING_HOURS_FALLBACK_TIME_ZONES: ${zone}`);
+    }
+  }
+
+  if (config.webhooks.skipSignatureValidation) {
+    if (config.nodeEnv === 'production') {
+      console.warn('Warning: SKIP_WEBHOOK_SIGNATURE_VALIDATION is ignored in production');
+    } else {
+      console.warn('Warning: Webhook signature validation is disabled');
+    }
+  }
 }
 
 export async function validateRetellCredentials(): Promise<boolean> {
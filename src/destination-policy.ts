@@ -0,0 +1,256 @@
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from './db.js';
+import { config } from './config.js';
+import { CallStatus } from './voice-provider.js';
+import { isOnDoNotCallList } from './do-not-call.js';
+import { timeZonesForNumber, localHour } from './area-codes.js';
+
+/**
+ * Where callbacks may dial. The demo calls whatever number a stranger reads
+ * out, so without limits it is an open relay for toll fraud.
+ */
+
+// Premium-rate codes, plus +1 area codes outside the US and Canada that are
+// billed as international calls and are common toll-fraud destinations
+const DEFAULT_BLOCKED_PREFIXES = [
+  '+1900', '+1976',
+  '+1242', '+1246', '+1264', '+1268', '+1284', '+1345', '+1441', '+1473',
+  '+1649', '+1658', '+1664', '+1721', '+1758', '+1767', '+1784', '+1809',
+  '+1829', '+1849', '+1868', '+1869', '+1876',
+];
+
+// Calls with no final status after this long are assumed over
+const STALE_CALL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Step used when searching for the next time calling hours open
+const WINDOW_STEP_MS = 15 * 60 * 1000;
+
+// Taken by every instance while it reserves a place for a callback
+const DIAL_SLOT_LOCK = 'outbound_call_slots';
+
+const FINAL_STATUSES: CallStatus[] = ['voicemail', 'completed', 'busy', 'no-answer', 'failed', 'canceled'];
+
+export type DestinationBlockReason =
+  | 'invalid_number'
+  | 'country_not_allowed'
+  | 'blocked_prefix'
+  | 'daily_limit'
+  | 'do_not_call'
+  | 'outside_calling_hours';
+
+export type DestinationVerdict =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: DestinationBlockReason;
+      message: string;
+      /** For outside_calling_hours: when the destination's calling hours next open */
+      opensAt?: Date;
+    };
+
+export type DialSlot =
+  | { reserved: true; id: string }
+  /** `verdict` is set when the destination's daily cap is spent, unset when every line is busy */
+  | { reserved: false; verdict?: Extract<DestinationVerdict, { allowed: false }> };
+
+const MESSAGES: Record<DestinationBlockReason, string> = {
+  invalid_number: 'That doesn\'t look like a valid phone number.',
+  country_not_allowed: 'Sorry, this demo can only call numbers in the US and Canada.',
+  blocked_prefix: 'Sorry, this demo can\'t call that number.',
+  daily_limit: 'Sorry, that number has already had the most demo calls we allow today.',
+  do_not_call: 'Sorry, that number is on our do-not-call list, so we can\'t call it.',
+  outside_calling_hours: 'Sorry, it\'s outside our calling hours where you are.',
+};
+
+function block(reason: DestinationBlockReason): DestinationVerdict {
+  return { allowed: false, reason, message: MESSAGES[reason] };
+}
+
+/**
+ * Rules that depend only on the number itself.
+ */
+export function checkDestinationRules(phoneNumber: string): DestinationVerdict {
+  if (!/^\+\d{8,15}$/.test(phoneNumber)) {
+    return block('invalid_number');
+  }
+
+  const policy = config.destinationPolicy;
+
+  if (!policy.allowedCountryCodes.some(code => phoneNumber.startsWith(`+${code}`))) {
+    return block('country_not_allowed');
+  }
+
+  const blockedPrefixes = [...DEFAULT_BLOCKED_PREFIXES, ...policy.blockedPrefixes];
+  if (blockedPrefixes.some(prefix => phoneNumber.startsWith(prefix))) {
+    return block('blocked_prefix');
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Full check before dialing: the number rules, the do-not-call list, the
+ * per-destination daily cap and local calling hours.
+ */
+export async function checkDestination(phoneNumber: string): Promise<DestinationVerdict> {
+  const verdict = checkDestinationRules(phoneNumber);
+  if (!verdict.allowed) {
+    return verdict;
+  }
+
+  if (await isOnDoNotCallList(phoneNumber)) {
+    return block('do_not_call');
+  }
+
+  const callsToday = await prisma.outboundCall.count({
+    where: {
+      toNumber: phoneNumber,
+      createdAt: { gt: new Date(Date.now() - DAY_MS) },
+    },
+  });
+
+  if (callsToday >= config.destinationPolicy.maxPerDestinationPerDay) {
+    return block('daily_limit');
+  }
+
+  return checkCallingHours(phoneNumber);
+}
+
+/**
+ * Whether `date` falls inside calling hours at the destination, judged by its
+ * area code. Area codes spanning several zones must be inside hours in all of
+ * them; unknown ones are checked against the fallback zones.
+ */
+export function checkCallingHours(phoneNumber: string, date = new Date()): DestinationVerdict {
+  const zones = callingZones(phoneNumber);
+  if (isWithinCallingHours(zones, date)) {
+    return { allowed: true };
+  }
+
+  const { start, end } = config.callingHours;
+  return {
+    allowed: false,
+    reason: 'outside_calling_hours',
+    message: `${MESSAGES.outside_calling_hours} We only call between ${formatHour(start)} and ${formatHour(end)} your time.`,
+    opensAt: nextCallingWindow(zones, date),
+  };
+}
+
+function callingZones(phoneNumber: string): string[] {
+  const zones = timeZonesForNumber(phoneNumber);
+  return zones.length > 0 ? zones : config.callingHours.fallbackTimeZones;
+}
+
+function isWithinCallingHours(zones: string[], date: Date): boolean {
+  const { start, end } = config.callingHours;
+  return zones.every(zone => {
+    const hour = localHour(zone, date);
+    return hour >= start && hour < end;
+  });
+}
+
+function nextCallingWindow(zones: string[], date: Date): Date | undefined {
+  let candidate = Math.ceil(date.getTime() / WINDOW_STEP_MS) * WINDOW_STEP_MS;
+  for (let i = 0; i < DAY_MS / WINDOW_STEP_MS; i++, candidate += WINDOW_STEP_MS) {
+    if (isWithinCallingHours(zones, new Date(candidate))) {
+      return new Date(candidate);
+    }
+  }
+  // Zones too far apart to ever share calling hours
+  return undefined;
+}
+
+function formatHour(hour: number): string {
+  if (hour === 0 || hour === 24) return 'midnight';
+  if (hour === 12) return 'noon';
+  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`;
+}
+
+/**
+ * Take a place for a callback about to be dialed. The concurrency limit and
+ * the destination's daily cap are checked and the call recorded in one
+ * transaction, under a lock every instance takes, so two dials can't both
+ * get the last place. The call is recorded under a placeholder id until
+ * confirmDialSlot moves it onto the provider's.
+ */
+export async function reserveDialSlot(call: {
+  provider: string;
+  sessionId: string;
+  toNumber: string;
+}): Promise<DialSlot> {
+  const id = `pending-${uuidv4()}`;
+
+  return prisma.$transaction(async tx => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${DIAL_SLOT_LOCK}))`;
+
+    const callsToday = await tx.outboundCall.count({
+      where: {
+        toNumber: call.toNumber,
+        createdAt: { gt: new Date(Date.now() - DAY_MS) },
+      },
+    });
+    if (callsToday >= config.destinationPolicy.maxPerDestinationPerDay) {
+      return { reserved: false, verdict: { allowed: false, reason: 'daily_limit', message: MESSAGES.daily_limit } };
+    }
+
+    const inProgress = await tx.outboundCall.count({
+      where: {
+        endedAt: null,
+        createdAt: { gt: new Date(Date.now() - STALE_CALL_MS) },
+      },
+    });
+    if (inProgress >= config.destinationPolicy.maxConcurrent) {
+      return { reserved: false };
+    }
+
+    await tx.outboundCall.create({
+      data: { id, ...call, status: 'queued' },
+    });
+    return { reserved: true, id };
+  });
+}
+
+/**
+ * Move a reserved call onto the id the provider gave it once it's placed,
+ * and note the caller ID it went out from.
+ */
+export async function confirmDialSlot(slotId: string, callId: string, fromNumber: string) {
+  await prisma.outboundCall.update({ where: { id: slotId }, data: { id: callId, fromNumber } });
+}
+
+/**
+ * Give back a place whose call was never placed.
+ */
+export async function releaseDialSlot(slotId: string) {
+  await prisma.outboundCall.deleteMany({ where: { id: slotId } });
+}
+
+/**
+ * Apply a status to a recorded call. Returns false if the call hasn't been
+ * recorded yet.
+ */
+export async function updateOutboundCallStatus(
+  callId: string,
+  status: CallStatus,
+  durationSeconds?: number
+): Promise<boolean> {
+  const result = await prisma.outboundCall.updateMany({
+    where: { id: callId, endedAt: null },
+    data: {
+      status,
+      ...(status === 'answered' && { answeredAt: new Date() }),
+      // Retell reports the pickup before it knows it was a machine
+      ...(status === 'voicemail' && { answeredAt: null }),
+      ...(durationSeconds !== undefined && { durationSeconds }),
+      ...(FINAL_STATUSES.includes(status) && { endedAt: new Date() }),
+    },
+  });
+  if (result.count > 0) {
+    return true;
+  }
+
+  // Already ended, so a late duplicate
+  return (await prisma.outboundCall.count({ where: { id: callId } })) > 0;
+}
@@ -0,0 +1,157 @@
+import { prisma } from './db.js';
+import { normalizePhoneNumber, maskPhone } from './phone.js';
+
+/**
+ * The do-not-call list. Checked by the destination policy before a callback
+ * is queued, and again by the providers right before they dial.
+ */
+
+export type DoNotCallSource = 'admin' | 'import';
+
+const CSV_HEADER = 'phone_number,reason,created_at';
+
+/**
+ * Thrown when something tries to dial a number on the list.
+ */
+export class DoNotCallError extends Error {
+  constructor(phoneNumber: string) {
+    super(`${maskPhone(phoneNumber)} is on the do-not-call list`);
+    this.name = 'DoNotCallError';
+  }
+}
+
+export async function isOnDoNotCallList(phoneNumber: string): Promise<boolean> {
+  const entry = await prisma.doNotCall.findUnique({ where: { phoneNumber } });
+  return entry !== null;
+}
+
+/**
+ * Last check before a provider dials - never place a call to a listed number.
+ */
+export async function assertNotOnDoNotCallList(phoneNumber: string) {
+  if (await isOnDoNotCallList(phoneNumber)) {
+    throw new DoNotCallError(phoneNumber);
+  }
+}
+
+/**
+ * Normalize a number for the list: E.164 as given, or a US/Canada number in
+ * any common format. Returns null if it's neither.
+ */
+export function normalizeListNumber(input: string): string | null {
+  const trimmed = input.trim();
+  if (/^\+\d{8,15}$/.test(trimmed)) {
+    return trimmed;
+  }
+  return normalizePhoneNumber(trimmed);
+}
+
+export async function addToDoNotCallList(phoneNumber: string, reason: string | null, source: DoNotCallSource) {
+  await prisma.doNotCall.upsert({
+    where: { phoneNumber },
+    create: { phoneNumber, reason, source },
+    update: { reason },
+  });
+}
+
+/**
+ * Returns false if the number wasn't on the list.
+ */
+export async function removeFromDoNotCallList(phoneNumber: string): Promise<boolean> {
+  const result = await prisma.doNotCall.deleteMany({ where: { phoneNumber } });
+  return result.count > 0;
+}
+
+export interface DoNotCallImportResult {
+  added: number;
+  /** Numbers already on the list */
+  existing: number;
+  /** 1-based line numbers that didn't hold a phone number */
+  invalidLines: number[];
+}
+
+/**
+ * Add every number in a CSV of `phone_number[,reason]` rows. A header row is
+ * skipped; numbers already listed keep their original entry.
+ */
+export async function importDoNotCallCsv(csv: string): Promise<DoNotCallImportResult> {
+  const entries = new Map<string, string | null>();
+  const invalidLines: number[] = [];
+
+  csv.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    const [number = '', reason = ''] = parseCsvLine(line);
+    const phoneNumber = normalizeListNumber(number);
+    if (!phoneNumber) {
+      if (!(index === 0 && /[a-z]/i.test(number))) {
+        invalidLines.push(index + 1);
+      }
+      return;
+    }
+
+    entries.set(phoneNumber, reason.trim().slice(0, 200) || null);
+  });
+
+  const result = await prisma.doNotCall.createMany({
+    data: [...entries].map(([phoneNumber, reason]) => ({ phoneNumber, reason, source: 'import' })),
+    skipDuplicates: true,
+  });
+
+  return {
+    added: result.count,
+    existing: entries.size - result.count,
+    invalidLines,
+  };
+}
+
+export async function exportDoNotCallCsv(): Promise<string> {
+  const entries = await prisma.doNotCall.findMany({ orderBy: { createdAt: 'asc' } });
+
+  const rows = entries.map(entry => [
+    entry.phoneNumber,
+    entry.reason || '',
+    entry.createdAt.toISOString(),
+  ].map(escapeCsvField).join(','));
+
+  return [CSV_HEADER, ...rows].join('\n') + '\n';
+}
+
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+function escapeCsvField(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
@@ -0,0 +1,16 @@
+import { createEvent } from './session.js';
+import { emitToSession } from './websocket.js';
+
+/**
+ * Record an event against a session and push it to subscribed browsers.
+ */
+export async function publishEvent(
+  sessionId: string,
+  type: string,
+  value: Record<string, unknown> = {}
+) {
+  const payload = { ...value, timestamp: new Date().toISOString() };
+
+  await createEvent(sessionId, type, payload);
+  emitToSession(sessionId, type, payload);
+}
@@ -0,0 +1,119 @@
+import { config } from './config.js';
+import type { StepId } from './flow.js';
+
+/**
+ * The Retell custom function (tool) that submits each step's answer. Kept
+ * apart from flow.ts, which loads the database, jobs and websocket, so
+ * scripts can build or call the tools without starting any of that.
+ */
+
+export interface StepTool {
+  /** Which call the step belongs to: the inbound call or the callback */
+  leg: 'inbound' | 'callback';
+  name: string;
+  description: string;
+  argument: string;
+  argumentDescription: string;
+}
+
+const CODE_NAME = config.pairCodes.format === 'words' ? 'code words' : '4-digit code';
+
+export const stepTools: Record<StepId, StepTool> = {
+  name: {
+    leg: 'inbound',
+    name: 'capture_name',
+    description: 'Call this when the user tells you their name',
+    argument: 'name',
+    argumentDescription: 'The caller\'s name',
+  },
+  code: {
+    leg: 'inbound',
+    name: 'verify_code',
+    description: `Call this when the user tells you the ${CODE_NAME} from their screen`,
+    argument: 'code',
+    argumentDescription: `The ${CODE_NAME} the user read from their browser`,
+  },
+  confirm_code: {
+    leg: 'inbound',
+    name: 'confirm_code',
+    description: `Call this when the user says the ${CODE_NAME} again after being asked to repeat it`,
+    argument: 'code',
+    argumentDescription: `The ${CODE_NAME} the user read out again`,
+  },
+  vertical: {
+    leg: 'inbound',
+    name: 'capture_vertical',
+    description: 'Call this when the user tells you their industry',
+    argument: 'vertical',
+    argumentDescription: 'The industry: real estate, insurance, mortgage, or other',
+  },
+  pain: {
+    leg: 'inbound',
+    name: 'capture_pain',
+    description: 'Call this when the user tells you their pain point',
+    argument: 'pain',
+    argumentDescription: 'The pain point: spam flags, awkward delay, low answer rates, or speed',
+  },
+  offer_caller_id: {
+    leg: 'inbound',
+    name: 'accept_caller_id',
+    description: 'Call this with the user\'s reply when you offer to call them back at the number they are calling from',
+    argument: 'answer',
+    argumentDescription: 'Their reply: yes, no, or a different phone number',
+  },
+  phone: {
+    leg: 'inbound',
+    name: 'initiate_callback',
+    description: 'Call this when the user gives you their phone number for the callback. Read the number back before dialing.',
+    argument: 'phone_number',
+    argumentDescription: 'The phone number to call back',
+  },
+  confirm_phone: {
+    leg: 'inbound',
+    name: 'confirm_callback_number',
+    description: 'Call this with the user\'s reply after reading back their callback number',
+    argument: 'answer',
+    argumentDescription: 'Their reply: yes, no, or the corrected phone number',
+  },
+  schedule: {
+    leg: 'callback',
+    name: 'schedule_appointment',
+    description: 'Call this when asking if the user wants to schedule a follow-up',
+    argument: 'wants_schedule',
+    argumentDescription: 'Whether they want to schedule: yes or no',
+  },
+  offer_transfer: {
+    leg: 'callback',
+    name: 'transfer_to_rep',
+    description: 'Call this with the user\'s reply when you offer to connect them to a sales rep, or at any point in the call when they ask to talk to a person. If it returns a transfer_number, transfer the call to it.',
+    argument: 'answer',
+    argumentDescription: 'The user\'s reply: yes, no, or their request to talk to a person',
+  },
+};
+
+/**
+ * Retell custom tool definitions for one leg of the flow, used by
+ * scripts/setup-retell.ts when creating the agents.
+ */
+export function retellTools(leg: StepTool['leg'], url: string) {
+  return Object.values(stepTools)
+    .filter(tool => tool.leg === leg)
+    .map(tool => ({
+      type: 'custom',
+      name: tool.name,
+      description: tool.description,
+      url,
+      speak_during_execution: false,
+      speak_after_execution: true,
+      parameters: {
+        type: 'object',
+        properties: {
+          [tool.argument]: {
+            type: 'string',
+            description: tool.argumentDescription,
+          },
+        },
+        required: [tool.argument],
+      },
+    }));
+}
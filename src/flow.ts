@@ -0,0 +1,785 @@
+import {
+  parseSpokenCode,
+  parseSpokenWordCode,
+  sanitizeName,
+  parseVerticalSelection,
+  parsePainSelection,
+  parsePhoneNumber,
+  parseYesNo,
+  parseTransferRequest,
+} from './speech-parser.js';
+import {
+  findSessionByCode,
+  pairSession,
+  checkRateLimit,
+  recordFailedAttempt,
+  clearRateLimit,
+  extendSession,
+  CodeMatch,
+} from './session.js';
+import { findNearbyLiveCodes } from './pair-codes.js';
+import { CODE_WORDS } from './code-words.js';
+import { config } from './config.js';
+import { emitToSession } from './websocket.js';
+import { publishEvent } from './events.js';
+import { requestCallback, CallbackNumberSource } from './callback.js';
+import { isOfferableCallerId } from './caller-id.js';
+import { startTransfer, TransferTarget } from './transfer.js';
+import { checkPairGuard, recordPairFailure } from './pair-guard.js';
+import { callStateStore, CallState, CallProvider } from './call-state.js';
+import { formatPhoneForSpeech, maskPhone } from './phone.js';
+import { stepTools, StepTool } from './flow-tools.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The demo conversation, defined once and rendered by two adapters:
+ * twilio.ts turns each step into a TwiML <Gather>, and retell.ts maps each
+ * step onto a Retell custom function (tool) call.
+ */
+export type StepId =
+  | 'name'
+  | 'code'
+  | 'confirm_code'
+  | 'vertical'
+  | 'pain'
+  | 'offer_caller_id'
+  | 'phone'
+  | 'confirm_phone'
+  | 'schedule'
+  | 'offer_transfer';
+
+/** One or more sentences; Twilio pauses briefly between them */
+export type Speech = string | string[];
+
+export interface FlowContext {
+  channel: CallProvider;
+  /** Call state, saved by the engine after every step */
+  state: CallState;
+  /** Number the inbound call came from */
+  callerNumber: string;
+  /** 1-based attempt number at this step */
+  attempt: number;
+  /** True when a failed answer on this attempt would exhaust the step */
+  isLastAttempt: boolean;
+}
+
+export type StepResult =
+  | {
+      kind: 'advance';
+      say?: Speech;
+      next: StepId;
+      /** Ask the next step's retryPrompt instead of its prompt, e.g. when going back */
+      reprompt?: boolean;
+      information?: Record<string, unknown>;
+    }
+  | { kind: 'retry'; say: Speech; exhaustedSay?: Speech; information?: Record<string, unknown> }
+  | { kind: 'end'; say: Speech; information?: Record<string, unknown> }
+  /** Bridge the caller to a sales rep once `say` has been spoken */
+  | { kind: 'transfer'; say: Speech; rep: TransferTarget; information?: Record<string, unknown> };
+
+export interface FlowStep {
+  id: StepId;
+  /** Asked when the step is reached */
+  prompt: (ctx: FlowContext) => Speech;
+  /** Asked again when the caller says nothing */
+  retryPrompt: string;
+  /** Speech recognition hints for the expected answer */
+  hints?: string;
+  /** Failed answers allowed before the call gives up (default: unlimited) */
+  maxAttempts?: number;
+  /** Said before hanging up once maxAttempts is reached */
+  exhaustedSay?: string;
+  /** Whether the call must already be paired to a session */
+  requiresSession: boolean;
+  /** Retell custom function that submits this step's answer */
+  tool: StepTool;
+  handle(input: string, ctx: FlowContext): Promise<StepResult>;
+}
+
+/**
+ * What an adapter should do next: speak `say`, then either wait for an
+ * answer to `gather`, bridge the call to `transfer`, or end the call.
+ */
+export interface FlowResponse {
+  say: string[];
+  gather: FlowStep | null;
+  transfer?: TransferTarget;
+  information?: Record<string, unknown>;
+}
+
+const DIGIT_HINTS = 'zero, one, two, three, four, five, six, seven, eight, nine';
+
+// Pair code wording and speech hints for the deployment's PAIR_CODE_FORMAT
+const WORD_CODES = config.pairCodes.format === 'words';
+const CODE_NAME = WORD_CODES ? 'code words' : 'four digit code';
+const CODE_HINTS = WORD_CODES ? CODE_WORDS.join(', ') : DIGIT_HINTS;
+const CODE_EXAMPLE = WORD_CODES
+  ? 'Please say the words one after another, like river maple.'
+  : 'Please say the four digits one at a time, like four eight two seven.';
+
+const CALLBACK_INTRO = 'Now here\'s the exciting part. I\'m going to demonstrate our power dialer by calling you back instantly.';
+const CALLBACK_GO_AHEAD = 'Great! Watch your screen - the dialer is about to call you. Hang up now and answer the incoming call!';
+
+const CODE_ENTRY_PAUSED = 'We\'re seeing a lot of incorrect codes right now, so code entry is paused for a moment. Please try again in a couple of minutes.';
+const CODE_JUST_USED = 'That code was just used by another caller. Please refresh the webpage for a new code and read it to me.';
+const CODE_JUST_USED_EXHAUSTED = 'That code was just used by another caller. Please refresh the webpage and call again.';
+
+const DEMO_CLOSING = 'That\'s the Phone Burner power dialer demo! You\'ve seen instant callbacks, real-time CRM updates, and appointment scheduling. Thanks for trying it out. Goodbye!';
+const NO_REP_AVAILABLE = 'Sorry, everyone on our sales team is busy right now. Someone will call you back soon.';
+
+// ============================================================================
+// Flow Definition
+// ============================================================================
+
+export const flow: Record<StepId, FlowStep> = {
+  name: {
+    id: 'name',
+    prompt: () => 'Hi, welcome to the Phone Burner demo. What\'s your name?',
+    retryPrompt: 'I didn\'t catch that. What\'s your name?',
+    requiresSession: false,
+    tool: stepTools.name,
+    async handle(input, ctx) {
+      const name = sanitizeName(input);
+      ctx.state.callerName = name;
+
+      return {
+        kind: 'advance',
+        say: `Thanks, ${name}.`,
+        next: 'code',
+        information: { captured_name: name },
+      };
+    },
+  },
+
+  code: {
+    id: 'code',
+    prompt: () => `Now say the ${CODE_NAME} you see on your website.`,
+    retryPrompt: `Please say the ${CODE_NAME} you see on your website.`,
+    hints: CODE_HINTS,
+    maxAttempts: 3,
+    exhaustedSay: 'Sorry, I couldn\'t understand the code. Please refresh the webpage and try again.',
+    requiresSession: false,
+    tool: stepTools.code,
+    async handle(input, ctx) {
+      const { callerNumber, state } = ctx;
+
+      // Check rate limit
+      const rateLimited = await rateLimitedResult(callerNumber);
+      if (rateLimited) {
+        return rateLimited;
+      }
+
+      // Parse the spoken code
+      const parseResult = parsePairCode(input);
+
+      if (!parseResult.success || !parseResult.code) {
+        const lockResult = await recordFailedAttempt(callerNumber);
+        const exhaustedSay = 'Sorry, I couldn\'t understand the code. Please refresh the webpage and try again.';
+
+        if (lockResult.locked) {
+          return { kind: 'end', say: exhaustedSay };
+        }
+
+        return {
+          kind: 'retry',
+          say: ['Sorry, I didn\'t get that.', CODE_EXAMPLE],
+          exhaustedSay,
+        };
+      }
+
+      // Guessing may be paused for everyone, or for this code, after a spike
+      // of wrong codes from many numbers
+      const guard = await checkPairGuard(parseResult.code);
+      if (!guard.allowed) {
+        return { kind: 'end', say: CODE_ENTRY_PAUSED };
+      }
+
+      // Find session by code
+      const session = await findSessionByCode(parseResult.code);
+
+      if (!session) {
+        const lockResult = await recordFailedAttempt(callerNumber);
+        await recordPairFailure(parseResult.code, callerNumber);
+
+        // If exactly one live code is a digit away, it was probably misheard:
+        // ask for the code again and pair only if they now say that one. The
+        // live code is never read out, but the near miss still counts as a
+        // failed guess at it, and isn't offered while the guard has it paused.
+        if (config.pairCodes.fuzzyMatch && !lockResult.locked) {
+          const nearby = await findNearbyLiveCodes(parseResult.code);
+          if (nearby.length === 1 && (await checkPairGuard(nearby[0])).allowed) {
+            await recordPairFailure(nearby[0], callerNumber);
+            state.pairCode = nearby[0];
+            return { kind: 'advance', next: 'confirm_code', information: { code_near_match: true } };
+          }
+        }
+
+        return {
+          kind: 'retry',
+          say: 'I couldn\'t find that code. Please make sure you\'re reading the code from your webpage and try again.',
+          exhaustedSay: 'That code doesn\'t match any active session. Please refresh the webpage and try again.',
+        };
+      }
+
+      const result = await pairWithSession(ctx, session.id, 'exact');
+      return result || {
+        kind: 'retry',
+        say: CODE_JUST_USED,
+        exhaustedSay: CODE_JUST_USED_EXHAUSTED,
+      };
+    },
+  },
+
+  // A near miss for a live code: hear the code again, and pair only if it's
+  // now exactly that code
+  confirm_code: {
+    id: 'confirm_code',
+    prompt: () => `I didn't quite catch that. Please say your ${CODE_NAME} again, slowly.`,
+    retryPrompt: `Please say the ${CODE_NAME} you see on your website.`,
+    hints: CODE_HINTS,
+    maxAttempts: 2,
+    exhaustedSay: 'Sorry, I couldn\'t confirm your code. Please refresh the webpage and try again.',
+    requiresSession: false,
+    tool: stepTools.confirm_code,
+    async handle(input, ctx) {
+      const pending = ctx.state.pairCode;
+      if (!pending) {
+        return { kind: 'advance', next: 'code', reprompt: true };
+      }
+
+      const spoken = parsePairCode(input);
+      if (!spoken.success || !spoken.code) {
+        return { kind: 'retry', say: ['Sorry, I didn\'t get that.', CODE_EXAMPLE] };
+      }
+
+      ctx.state.pairCode = undefined;
+
+      // Same checks as a spoken code: the caller or this code may have been
+      // locked out while we were asking
+      const rateLimited = await rateLimitedResult(ctx.callerNumber);
+      if (rateLimited) {
+        return rateLimited;
+      }
+      if (!(await checkPairGuard(spoken.code)).allowed) {
+        return { kind: 'end', say: CODE_ENTRY_PAUSED };
+      }
+
+      if (spoken.code !== pending) {
+        await recordFailedAttempt(ctx.callerNumber);
+        await recordPairFailure(spoken.code, ctx.callerNumber);
+        return {
+          kind: 'advance',
+          say: 'I couldn\'t find that code.',
+          next: 'code',
+          reprompt: true,
+        };
+      }
+
+      // The session may have paired or expired while we were asking
+      const session = await findSessionByCode(pending);
+      const result = session && await pairWithSession(ctx, session.id, 'fuzzy');
+      return result || { kind: 'advance', say: CODE_JUST_USED, next: 'code', reprompt: true };
+    },
+  },
+
+  vertical: {
+    id: 'vertical',
+    prompt: () => 'What industry are you in? Say Real Estate, Insurance, Mortgage, or Other.',
+    retryPrompt: 'What industry are you in? Say Real Estate, Insurance, Mortgage, or Other.',
+    hints: 'real estate, insurance, mortgage, other',
+    requiresSession: true,
+    tool: stepTools.vertical,
+    async handle(input, ctx) {
+      const sessionId = ctx.state.sessionId!;
+      const raw = input.trim();
+      const known = parseVerticalSelection(raw);
+
+      // Ask once more for an unrecognized answer, then take it as given
+      if (!known && (!raw || ctx.attempt < 2)) {
+        return {
+          kind: 'retry',
+          say: 'I didn\'t catch that. Please say Real Estate, Insurance, Mortgage, or Other.',
+        };
+      }
+
+      const vertical = known || raw.toLowerCase().replace(/\s+/g, '_');
+      const displayName = known ? undefined : raw;
+
+      await publishEvent(sessionId, 'vertical_selected', { vertical, displayName, raw });
+      await extendSession(sessionId);
+
+      return {
+        kind: 'advance',
+        say: `Great, ${displayName || vertical.replace(/_/g, ' ')}! Check your browser, you should see it updating.`,
+        next: 'pain',
+        information: { vertical },
+      };
+    },
+  },
+
+  pain: {
+    id: 'pain',
+    prompt: () => 'What\'s your biggest pain point with outbound calling? Say Spam Flags, Awkward Delay, Low Answer Rates, or Speed.',
+    retryPrompt: 'What\'s your biggest pain point? Say Spam Flags, Awkward Delay, Low Answer Rates, or Speed.',
+    hints: 'spam flags, awkward delay, low answer rates, speed',
+    requiresSession: true,
+    tool: stepTools.pain,
+    async handle(input, ctx) {
+      const sessionId = ctx.state.sessionId!;
+      const raw = input.trim();
+      const known = parsePainSelection(raw);
+
+      // Ask once more for an unrecognized answer, then take it as given
+      if (!known && (!raw || ctx.attempt < 2)) {
+        return {
+          kind: 'retry',
+          say: 'I didn\'t catch that. Please say Spam Flags, Awkward Delay, Low Answer Rates, or Speed.',
+        };
+      }
+
+      const pain = known || raw.toLowerCase().replace(/\s+/g, '_');
+      const displayName = known ? undefined : raw;
+      const isSpam = pain === 'spam_flags';
+
+      await publishEvent(sessionId, 'pain_selected', { pain, displayName, isSpam, raw });
+      await extendSession(sessionId);
+
+      return {
+        kind: 'advance',
+        say: isSpam
+          ? 'Spam flags - check your screen right now. Does that look familiar? We can fix that.'
+          : `${displayName || pain.replace(/_/g, ' ')} - we hear that a lot. Check your browser, you should see it updating in real-time.`,
+        next: await isOfferableCallerId(inboundNumber(ctx)) ? 'offer_caller_id' : 'phone',
+        information: { pain, isSpam },
+      };
+    },
+  },
+
+  // Save reciting ten digits when we already know a callable number
+  offer_caller_id: {
+    id: 'offer_caller_id',
+    prompt: ctx => `${CALLBACK_INTRO} Should I call you back at the number ending in ${inboundNumber(ctx).slice(-4).split('').join(' ')}?`,
+    retryPrompt: 'Should I call you back at the number you\'re calling from? Please say yes or no.',
+    hints: 'yes, no, yeah, nope, sure, okay',
+    maxAttempts: 2,
+    requiresSession: true,
+    tool: stepTools.offer_caller_id,
+    async handle(input, ctx) {
+      const sessionId = ctx.state.sessionId!;
+      const callerNumber = inboundNumber(ctx);
+
+      // They gave a different number instead of answering - read it back
+      const spoken = parsePhoneNumber(input);
+      if (spoken.success && spoken.number && spoken.number !== callerNumber) {
+        await holdCallbackNumber(ctx, spoken.number);
+        return { kind: 'advance', next: 'confirm_phone' };
+      }
+
+      const answer = spoken.number === callerNumber ? 'yes' : parseYesNo(input);
+
+      if (answer === 'yes') {
+        return callbackRequested(ctx, callerNumber, 'caller_id');
+      }
+
+      // Anything but a clear yes falls back to spoken entry once retries run out
+      if (answer === 'no' || ctx.isLastAttempt) {
+        await publishEvent(sessionId, 'caller_id_declined', { phoneNumber: maskPhone(callerNumber) });
+        return { kind: 'advance', say: 'No problem.', next: 'phone', reprompt: true };
+      }
+
+      return { kind: 'retry', say: 'Sorry, should I call you back at the number you\'re calling from? Say yes or no.' };
+    },
+  },
+
+  phone: {
+    id: 'phone',
+    prompt: () => `${CALLBACK_INTRO} What's your phone number? Please say it digit by digit.`,
+    retryPrompt: 'Please say your phone number digit by digit, like 4 1 5 5 5 5 1 2 3 4.',
+    hints: DIGIT_HINTS,
+    maxAttempts: 3,
+    exhaustedSay: 'Sorry, I still couldn\'t get your number. Please refresh the webpage and try again.',
+    requiresSession: true,
+    tool: stepTools.phone,
+    async handle(input, ctx) {
+      const phoneResult = parsePhoneNumber(input);
+
+      if (!phoneResult.success || !phoneResult.number) {
+        return {
+          kind: 'retry',
+          say: 'I didn\'t quite get that. Please say your 10 digit phone number, digit by digit.',
+        };
+      }
+
+      await holdCallbackNumber(ctx, phoneResult.number);
+
+      return {
+        kind: 'advance',
+        next: 'confirm_phone',
+        information: { phone_captured: true, phone_last_four: phoneResult.number.slice(-4) },
+      };
+    },
+  },
+
+  // Mis-heard digits would mean calling a stranger, so read the number back first
+  confirm_phone: {
+    id: 'confirm_phone',
+    prompt: ctx => `I have ${formatPhoneForSpeech(ctx.state.callbackNumber || '')}. Is that right?`,
+    retryPrompt: 'Is that the right number? Please say yes or no.',
+    hints: `yes, no, ${DIGIT_HINTS}`,
+    maxAttempts: 3,
+    exhaustedSay: 'Sorry, I couldn\'t confirm your number. Please refresh the webpage and try again.',
+    requiresSession: true,
+    tool: stepTools.confirm_phone,
+    async handle(input, ctx) {
+      const sessionId = ctx.state.sessionId!;
+      const pending = ctx.state.callbackNumber;
+
+      if (!pending) {
+        return { kind: 'advance', next: 'phone', reprompt: true };
+      }
+
+      // A full number in the reply is a correction - read that one back instead
+      const correction = parsePhoneNumber(input);
+      if (correction.success && correction.number && correction.number !== pending) {
+        await holdCallbackNumber(ctx, correction.number);
+        return { kind: 'advance', say: 'Thanks.', next: 'confirm_phone' };
+      }
+
+      const answer = correction.number === pending ? 'yes' : parseYesNo(input);
+
+      if (answer === 'no') {
+        ctx.state.callbackNumber = undefined;
+        return { kind: 'advance', say: 'Sorry about that.', next: 'phone', reprompt: true };
+      }
+
+      if (answer !== 'yes') {
+        return {
+          kind: 'retry',
+          say: `Is ${formatPhoneForSpeech(pending)} the right number? Say yes or no, or say the correct number.`,
+        };
+      }
+
+      ctx.state.callbackNumber = undefined;
+      await publishEvent(sessionId, 'callback_number_confirmed', { phoneNumber: maskPhone(pending) });
+      return callbackRequested(ctx, pending, 'spoken');
+    },
+  },
+
+  schedule: {
+    id: 'schedule',
+    prompt: ctx => [
+      `Hi ${ctx.state.callerName || 'there'}! This is Phone Burner calling you back. Notice how fast that was? No awkward delay, no pause - instant connection.`,
+      'Look at your browser now. You can see the dialer interface with your contact information, ready to take notes and schedule follow-ups.',
+      'Would you like to schedule a follow-up call? Say yes or no.',
+    ],
+    retryPrompt: 'Would you like to schedule a follow-up? Say yes or no.',
+    hints: 'yes, no, yeah, nope, sure, okay',
+    requiresSession: true,
+    tool: stepTools.schedule,
+    async handle(input, ctx) {
+      const sessionId = ctx.state.sessionId!;
+
+      // Hot leads can ask for a person instead of answering
+      if (parseYesNo(input) !== 'no' && parseTransferRequest(input)) {
+        return transferToRep(ctx, { kind: 'retry', say: [NO_REP_AVAILABLE, flow.schedule.retryPrompt] });
+      }
+
+      let say: string[];
+      let information: Record<string, unknown>;
+
+      if (parseYesNo(input) === 'yes') {
+        await publishEvent(sessionId, 'schedule_requested');
+
+        // Book a demo appointment
+        const date = getNextBusinessDay();
+        await publishEvent(sessionId, 'appointment_scheduled', { date, time: '2:00 PM' });
+
+        say = [
+          'Great! Check your screen - the calendar is now open. In a real scenario, you would select a date and time, and the system would automatically schedule the call and send a reminder.',
+          `I've scheduled a demo follow-up for ${date} at 2 PM. You should see it on the calendar now.`,
+        ];
+        information = { scheduled: true, date, time: '2:00 PM' };
+      } else {
+        await publishEvent(sessionId, 'schedule_declined');
+
+        say = ['No problem! The calendar feature is there whenever you need it.'];
+        information = { scheduled: false };
+      }
+
+      return { kind: 'advance', say, next: 'offer_transfer', information };
+    },
+  },
+
+  offer_transfer: {
+    id: 'offer_transfer',
+    prompt: () => 'One more thing - would you like to talk to someone on our sales team right now? Say yes or no.',
+    retryPrompt: 'Would you like to talk to someone on our sales team now? Say yes or no.',
+    hints: 'yes, no, yeah, nope, sure, talk to a person, representative',
+    maxAttempts: 2,
+    requiresSession: true,
+    tool: stepTools.offer_transfer,
+    async handle(input, ctx) {
+      const sessionId = ctx.state.sessionId!;
+      // A plain no wins over a mention of a person - never bridge someone who declined
+      const yesNo = parseYesNo(input);
+      const answer = yesNo !== 'no' && parseTransferRequest(input) ? 'yes' : yesNo;
+
+      if (answer === 'yes') {
+        await publishEvent(sessionId, 'demo_completed');
+        return transferToRep(ctx, { kind: 'end', say: [NO_REP_AVAILABLE, DEMO_CLOSING] });
+      }
+
+      if (answer === 'no' || ctx.isLastAttempt) {
+        await publishEvent(sessionId, 'demo_completed');
+        return { kind: 'end', say: DEMO_CLOSING, information: { transfer: false } };
+      }
+
+      return { kind: 'retry', say: 'Sorry - would you like to talk to someone on our sales team now? Say yes or no.' };
+    },
+  },
+};
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+export function findStep(id: string): FlowStep | undefined {
+  return Object.prototype.hasOwnProperty.call(flow, id) ? flow[id as StepId] : undefined;
+}
+
+export function findStepByTool(toolName: string): FlowStep | undefined {
+  return Object.values(flow).find(step => step.tool.name === toolName);
+}
+
+function toArray(speech: Speech | undefined): string[] {
+  if (!speech) return [];
+  return Array.isArray(speech) ? speech : [speech];
+}
+
+function buildContext(stepId: StepId, channel: CallProvider, state: CallState, callerNumber: string): FlowContext {
+  const step = flow[stepId];
+  const attempt = state.step === stepId ? state.attempts + 1 : 1;
+
+  return {
+    channel,
+    state,
+    callerNumber,
+    attempt,
+    isLastAttempt: step.maxAttempts !== undefined && attempt >= step.maxAttempts,
+  };
+}
+
+/**
+ * Start a step: ask its prompt and wait for the answer.
+ */
+export async function enterStep(
+  stepId: StepId,
+  channel: CallProvider,
+  state: CallState,
+  callerNumber = ''
+): Promise<FlowResponse> {
+  state.step = stepId;
+  state.attempts = 0;
+  await callStateStore.set(state);
+
+  const step = flow[stepId];
+  return {
+    say: toArray(step.prompt(buildContext(stepId, channel, state, callerNumber))),
+    gather: step,
+  };
+}
+
+/**
+ * Feed the caller's answer to a step and work out what happens next:
+ * advance to the next step's prompt, retry (up to the step's limit), or end.
+ */
+export async function runStep(
+  stepId: StepId,
+  input: string,
+  channel: CallProvider,
+  state: CallState,
+  callerNumber: string
+): Promise<FlowResponse> {
+  const step = flow[stepId];
+
+  if (step.requiresSession && !state.sessionId) {
+    return { say: ['Please verify your code first.'], gather: flow.code };
+  }
+
+  const ctx = buildContext(stepId, channel, state, callerNumber);
+  const result = await step.handle(input, ctx);
+
+  let response: FlowResponse;
+
+  switch (result.kind) {
+    case 'advance': {
+      const next = flow[result.next];
+      state.step = next.id;
+      state.attempts = 0;
+      response = {
+        say: [
+          ...toArray(result.say),
+          ...(result.reprompt
+            ? [next.retryPrompt]
+            : toArray(next.prompt(buildContext(next.id, channel, state, callerNumber)))),
+        ],
+        gather: next,
+      };
+      break;
+    }
+
+    case 'retry':
+      state.step = stepId;
+      state.attempts = ctx.attempt;
+      response = ctx.isLastAttempt
+        ? { say: toArray(result.exhaustedSay || step.exhaustedSay), gather: null }
+        : { say: toArray(result.say), gather: step };
+      break;
+
+    case 'end':
+      response = { say: toArray(result.say), gather: null };
+      break;
+
+    case 'transfer':
+      response = { say: toArray(result.say), gather: null, transfer: result.rep };
+      break;
+  }
+
+  await callStateStore.set(state);
+
+  return { ...response, information: result.information };
+}
+
+// Number the inbound call came from, as stored when the call started
+function inboundNumber(ctx: FlowContext): string {
+  return ctx.state.callerNumber || ctx.callerNumber;
+}
+
+// End the call if the caller has run out of code attempts
+async function rateLimitedResult(callerNumber: string): Promise<StepResult | null> {
+  const rateLimitCheck = await checkRateLimit(callerNumber);
+  if (rateLimitCheck.allowed) {
+    return null;
+  }
+
+  const waitSeconds = rateLimitCheck.lockedUntil
+    ? Math.ceil((rateLimitCheck.lockedUntil.getTime() - Date.now()) / 1000)
+    : 60;
+
+  return {
+    kind: 'end',
+    say: `Too many failed attempts. Please wait ${waitSeconds} seconds and try again.`,
+  };
+}
+
+// Pair the call with a session, or return null if another caller paired it
+// first (or it expired) since the code was looked up
+async function pairWithSession(ctx: FlowContext, sessionId: string, codeMatch: CodeMatch): Promise<StepResult | null> {
+  const { callerNumber, state } = ctx;
+  const callerName = state.callerName || 'Caller';
+
+  const paired = await pairSession(sessionId, callerNumber, callerName, state.callId, codeMatch);
+
+  if (!paired) {
+    console.warn(`Session ${sessionId} was paired by another caller first`);
+    await publishEvent(sessionId, 'pair_conflict', { phoneNumber: maskPhone(callerNumber) });
+    return null;
+  }
+
+  await clearRateLimit(callerNumber);
+
+  // Bind the session to this call
+  state.sessionId = sessionId;
+
+  emitToSession(sessionId, 'paired', {
+    callerName,
+    codeMatch,
+    timestamp: new Date().toISOString(),
+  });
+
+  return {
+    kind: 'advance',
+    say: `Connected! Keep the webpage open, ${callerName}. Now, let me ask you a couple quick questions.`,
+    next: 'vertical',
+    information: { session_id: sessionId, paired: true, code_match: codeMatch },
+  };
+}
+
+// Parse a spoken pair code in the deployment's format
+function parsePairCode(input: string) {
+  return WORD_CODES ? parseSpokenWordCode(input, config.pairCodes.words) : parseSpokenCode(input);
+}
+
+// Remember a heard callback number until the caller confirms it, and show it in the browser
+async function holdCallbackNumber(ctx: FlowContext, phoneNumber: string) {
+  ctx.state.callbackNumber = phoneNumber;
+  await publishEvent(ctx.state.sessionId!, 'callback_number_pending', { phoneNumber: maskPhone(phoneNumber) });
+}
+
+// Request the callback and tell the caller how it went: dialing now, waiting
+// for calling hours, or refused
+async function callbackRequested(
+  ctx: FlowContext,
+  phoneNumber: string,
+  source: CallbackNumberSource
+): Promise<StepResult> {
+  const result = await requestCallback(ctx.channel, ctx.state.sessionId!, phoneNumber, source);
+
+  if (!result.allowed) {
+    // Another number in the same area won't be inside hours either
+    if (result.reason === 'outside_calling_hours') {
+      return { kind: 'end', say: [result.message, 'Please try the demo again then. Goodbye!'] };
+    }
+    return { kind: 'advance', say: result.message, next: 'phone', reprompt: true };
+  }
+
+  const information = { phone_confirmed: true, phone_last_four: phoneNumber.slice(-4), source };
+
+  if ('deferredUntil' in result) {
+    return {
+      kind: 'end',
+      say: [result.message, 'Watch your screen - the dialer will ring you then. You can hang up now.'],
+      information: { ...information, deferred_until: result.deferredUntil.toISOString() },
+    };
+  }
+
+  return { kind: 'end', say: CALLBACK_GO_AHEAD, information };
+}
+
+// Bridge the caller to the next available rep, or carry on with `fallback`
+// if nobody's available
+async function transferToRep(ctx: FlowContext, fallback: StepResult): Promise<StepResult> {
+  const rep = await startTransfer(ctx.state.sessionId!);
+  if (!rep) {
+    return fallback;
+  }
+
+  ctx.state.transferRepId = rep.id;
+  return {
+    kind: 'transfer',
+    say: `Connecting you to ${rep.name} on our sales team now. One moment.`,
+    rep,
+    // Retell's transfer_call tool dials this number
+    information: { transfer: true, transfer_number: rep.phoneNumber, rep_name: rep.name },
+  };
+}
+
+function getNextBusinessDay(): string {
+  const today = new Date();
+  const tomorrow = new Date(today);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  // Skip weekends
+  while (tomorrow.getDay() === 0 || tomorrow.getDay() === 6) {
+    tomorrow.setDate(tomorrow.getDate() + 1);
+  }
+
+  return tomorrow.toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  });
+}
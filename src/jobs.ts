@@ -0,0 +1,286 @@
+import os from 'os';
+import { Job, JobStatus, Prisma } from '@prisma/client';
+import { prisma } from './db.js';
+import { config } from './config.js';
+
+export type JobPayload = Record<string, unknown>;
+
+interface JobHandler {
+  run: (payload: JobPayload, job: Job) => Promise<void>;
+  /** Called once a job has used up its attempts and been dead-lettered */
+  onDead?: (payload: JobPayload, error: Error) => Promise<void>;
+  /** Delay before retry n (1-based) */
+  backoffMs: (attempt: number) => number;
+}
+
+export interface EnqueueOptions {
+  /** Run no earlier than this many ms from now */
+  delayMs?: number;
+  maxAttempts?: number;
+  /** Unique key - enqueueing a key that already exists is a no-op */
+  key?: string;
+}
+
+/**
+ * Thrown by a handler that can't run yet (e.g. no capacity). The job is put
+ * back without using up an attempt.
+ */
+export class JobDeferredError extends Error {
+  constructor(readonly delayMs: number, message = 'Job deferred') {
+    super(message);
+    this.name = 'JobDeferredError';
+  }
+}
+
+const handlers = new Map<string, JobHandler>();
+const recurring = new Map<string, number>();
+
+// Identifies this process in Job.lockedBy
+const workerId = `${os.hostname()}:${process.pid}`;
+
+const BATCH_SIZE = 5;
+
+function defaultBackoff(attempt: number): number {
+  return Math.min(1000 * 2 ** attempt, 5 * 60 * 1000);
+}
+
+/**
+ * Register the function that runs jobs of `type`.
+ */
+export function registerJobHandler(
+  type: string,
+  run: JobHandler['run'],
+  options: Partial<Omit<JobHandler, 'run'>> = {}
+) {
+  handlers.set(type, {
+    run,
+    onDead: options.onDead,
+    backoffMs: options.backoffMs || defaultBackoff,
+  });
+}
+
+/**
+ * Queue a job. It survives restarts and runs on whichever instance claims it first.
+ */
+export async function enqueueJob(
+  type: string,
+  payload: JobPayload,
+  options: EnqueueOptions = {}
+): Promise<Job> {
+  const data = {
+    type,
+    payload: payload as Prisma.InputJsonObject,
+    runAt: new Date(Date.now() + (options.delayMs || 0)),
+    maxAttempts: options.maxAttempts || 3,
+    key: options.key,
+  };
+
+  if (options.key) {
+    return prisma.job.upsert({
+      where: { key: options.key },
+      create: data,
+      update: {},
+    });
+  }
+
+  return prisma.job.create({ data });
+}
+
+/**
+ * Run `type` every `intervalMs`. One job row per type is shared by every
+ * instance, so the work runs once per interval however many are up.
+ */
+export async function scheduleRecurringJob(type: string, intervalMs: number) {
+  recurring.set(type, intervalMs);
+  await enqueueJob(type, {}, { key: recurringKey(type) });
+}
+
+function recurringKey(type: string): string {
+  return `recurring:${type}`;
+}
+
+/**
+ * Claim due jobs. Jobs whose lock is older than the lock timeout belong to a
+ * worker that died mid-run and are claimed again.
+ */
+async function claimJobs(): Promise<Job[]> {
+  const staleBefore = new Date(Date.now() - config.jobs.lockTimeoutSeconds * 1000);
+
+  return prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET status = 'RUNNING'::"JobStatus",
+        "lockedAt" = now(),
+        "lockedBy" = ${workerId},
+        attempts = attempts + 1,
+        "updatedAt" = now()
+    WHERE id IN (
+      SELECT id FROM "Job"
+      WHERE (status = 'PENDING'::"JobStatus" AND "runAt" <= now())
+         OR (status = 'RUNNING'::"JobStatus" AND "lockedAt" < ${staleBefore})
+      ORDER BY "runAt"
+      LIMIT ${BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+}
+
+async function runJob(job: Job) {
+  const handler = handlers.get(job.type);
+  const payload = job.payload as JobPayload;
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`);
+    }
+
+    await handler.run(payload, job);
+
+    const intervalMs = recurring.get(job.type);
+    if (intervalMs && job.key === recurringKey(job.type)) {
+      await rearm(job, intervalMs);
+    } else {
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { status: JobStatus.COMPLETED, lockedAt: null, lockedBy: null, lastError: null },
+      });
+    }
+  } catch (error) {
+    if (error instanceof JobDeferredError) {
+      console.log(`Job ${job.type} ${job.id} deferred ${error.delayMs}ms: ${error.message}`);
+      await prisma.job.update({
+        where: { id: job.id },
+        data: {
+          status: JobStatus.PENDING,
+          runAt: new Date(Date.now() + error.delayMs),
+          attempts: { decrement: 1 },
+          lockedAt: null,
+          lockedBy: null,
+        },
+      });
+      return;
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error(`Job ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, err.message);
+
+    const intervalMs = recurring.get(job.type);
+    if (intervalMs && job.key === recurringKey(job.type)) {
+      // Recurring jobs never dead-letter - try again next interval
+      await rearm(job, intervalMs, err.message);
+    } else if (handler && job.attempts < job.maxAttempts) {
+      await prisma.job.update({
+        where: { id: job.id },
+        data: {
+          status: JobStatus.PENDING,
+          runAt: new Date(Date.now() + handler.backoffMs(job.attempts)),
+          lockedAt: null,
+          lockedBy: null,
+          lastError: err.message,
+        },
+      });
+    } else {
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { status: JobStatus.DEAD, lockedAt: null, lockedBy: null, lastError: err.message },
+      });
+      console.error(`Job ${job.type} ${job.id} dead-lettered`);
+
+      try {
+        await handler?.onDead?.(payload, err);
+      } catch (deadError) {
+        console.error(`Error handling dead job ${job.id}:`, deadError);
+      }
+    }
+  }
+}
+
+async function rearm(job: Job, intervalMs: number, lastError: string | null = null) {
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: JobStatus.PENDING,
+      runAt: new Date(Date.now() + intervalMs),
+      attempts: 0,
+      lockedAt: null,
+      lockedBy: null,
+      lastError,
+    },
+  });
+}
+
+/**
+ * Make pending jobs whose key starts with `keyPrefix` due now, returning how many.
+ */
+export async function runPendingJobsNow(keyPrefix: string): Promise<number> {
+  const result = await prisma.job.updateMany({
+    where: { status: JobStatus.PENDING, key: { startsWith: keyPrefix } },
+    data: { runAt: new Date() },
+  });
+  return result.count;
+}
+
+/**
+ * Delete pending jobs whose key starts with `keyPrefix`, returning how many.
+ * Jobs a worker has already claimed are left alone.
+ */
+export async function cancelPendingJobs(keyPrefix: string): Promise<number> {
+  const result = await prisma.job.deleteMany({
+    where: { status: JobStatus.PENDING, key: { startsWith: keyPrefix } },
+  });
+  return result.count;
+}
+
+/**
+ * Remove completed jobs older than `olderThanMs`. Dead jobs are kept.
+ */
+export async function deleteCompletedJobs(olderThanMs: number) {
+  const result = await prisma.job.deleteMany({
+    where: {
+      status: JobStatus.COMPLETED,
+      updatedAt: { lt: new Date(Date.now() - olderThanMs) },
+    },
+  });
+  return result.count;
+}
+
+/**
+ * Poll for due jobs until the returned stop function is called.
+ */
+export function startJobWorker(): () => Promise<void> {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let current: Promise<void> | null = null;
+
+  const poll = async () => {
+    try {
+      const jobs = await claimJobs();
+      for (const job of jobs) {
+        await runJob(job);
+      }
+    } catch (error) {
+      console.error('Job worker error:', error);
+    }
+  };
+
+  const loop = () => {
+    current = poll().finally(() => {
+      current = null;
+      if (!stopped) {
+        timer = setTimeout(loop, config.jobs.pollIntervalMs);
+      }
+    });
+  };
+
+  loop();
+  console.log(`Job worker ${workerId} started`);
+
+  return async () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+    // Let an in-flight batch finish so its jobs aren't left locked
+    await current;
+  };
+}
@@ -0,0 +1,202 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './db.js';
+import { config } from './config.js';
+
+/**
+ * Health of the caller IDs in the local-presence pool. Numbers that carriers
+ * start labelling as spam show it as falling answer rates and a rise in
+ * calls hung up within seconds, so those are tracked per number and a number
+ * that crosses a threshold is rested for a while.
+ */
+
+export const NUMBER_HEALTH_JOB = 'number_health';
+
+export type UnhealthyReason = 'low_answer_rate' | 'high_short_call_rate' | 'daily_volume';
+
+export interface NumberMetrics {
+  /** Every call placed, including ones still in progress */
+  calls: number;
+  /** Calls that have ended - the denominator for the rates */
+  finished: number;
+  answered: number;
+  /** Answered calls shorter than numberHealth.shortCallSeconds */
+  shortCalls: number;
+  busy: number;
+  noAnswer: number;
+  voicemail: number;
+  failed: number;
+  answerRate: number | null;
+  shortCallRate: number | null;
+}
+
+interface MetricsRow {
+  fromNumber: string;
+  day: Date | null;
+  calls: number;
+  finished: number;
+  answered: number;
+  shortCalls: number;
+  busy: number;
+  noAnswer: number;
+  voicemail: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Count outcomes per caller ID for calls placed after `since` (and, when
+ * `sinceHealthReset` is set, after each number's last health reset),
+ * optionally split by day.
+ */
+async function queryMetrics(since: Date, options: { byDay?: boolean; sinceHealthReset?: boolean } = {}) {
+  const day = options.byDay ? Prisma.sql`date_trunc('day', c."createdAt")` : Prisma.sql`NULL::timestamp`;
+  const resetFilter = options.sinceHealthReset
+    ? Prisma.sql`AND (n."healthResetAt" IS NULL OR c."createdAt" > n."healthResetAt")`
+    : Prisma.empty;
+
+  return prisma.$queryRaw<MetricsRow[]>`
+    SELECT
+      c."fromNumber",
+      ${day} AS day,
+      count(*)::int AS calls,
+      count(c."endedAt")::int AS finished,
+      count(c."answeredAt")::int AS answered,
+      count(*) FILTER (
+        WHERE c."answeredAt" IS NOT NULL AND c."durationSeconds" < ${config.numberHealth.shortCallSeconds}
+      )::int AS "shortCalls",
+      count(*) FILTER (WHERE c.status = 'busy')::int AS busy,
+      count(*) FILTER (WHERE c.status = 'no-answer')::int AS "noAnswer",
+      count(*) FILTER (WHERE c.status = 'voicemail')::int AS voicemail,
+      count(*) FILTER (WHERE c.status IN ('failed', 'canceled'))::int AS failed
+    FROM "OutboundCall" c
+    JOIN "OutboundNumber" n ON n."phoneNumber" = c."fromNumber"
+    WHERE c."createdAt" > ${since} ${resetFilter}
+    GROUP BY 1, 2
+    ORDER BY 2
+  `;
+}
+
+function toMetrics(row: MetricsRow): NumberMetrics {
+  return {
+    calls: row.calls,
+    finished: row.finished,
+    answered: row.answered,
+    shortCalls: row.shortCalls,
+    busy: row.busy,
+    noAnswer: row.noAnswer,
+    voicemail: row.voicemail,
+    failed: row.failed,
+    answerRate: row.finished > 0 ? row.answered / row.finished : null,
+    shortCallRate: row.answered > 0 ? row.shortCalls / row.answered : null,
+  };
+}
+
+/**
+ * Which threshold a number's recent metrics cross, if any. Rates are only
+ * judged once enough calls have finished to mean something.
+ */
+function unhealthyReason(metrics: NumberMetrics): UnhealthyReason | null {
+  const thresholds = config.numberHealth;
+
+  if (metrics.calls >= thresholds.maxDailyCalls) {
+    return 'daily_volume';
+  }
+  if (metrics.finished < thresholds.minCalls) {
+    return null;
+  }
+  if (metrics.answerRate !== null && metrics.answerRate < thresholds.minAnswerRate) {
+    return 'low_answer_rate';
+  }
+  if (metrics.shortCallRate !== null && metrics.shortCallRate > thresholds.maxShortCallRate) {
+    return 'high_short_call_rate';
+  }
+  return null;
+}
+
+/**
+ * Rest healthy numbers that cross a threshold over the last day, and bring
+ * back rested numbers whose rest is over. Run as a recurring job.
+ */
+export async function evaluateNumberHealth() {
+  const now = new Date();
+
+  const restored = await prisma.outboundNumber.updateMany({
+    where: { healthy: false, restedUntil: { lte: now } },
+    data: { healthy: true, restedUntil: null, unhealthyReason: null, healthResetAt: now },
+  });
+  if (restored.count > 0) {
+    console.log(`Restored ${restored.count} rested caller ID(s) to the pool`);
+  }
+
+  const rows = await queryMetrics(new Date(now.getTime() - DAY_MS), { sinceHealthReset: true });
+  const restedUntil = new Date(now.getTime() + config.numberHealth.restHours * 60 * 60 * 1000);
+
+  for (const row of rows) {
+    const metrics = toMetrics(row);
+    const reason = unhealthyReason(metrics);
+    if (!reason) continue;
+
+    const rested = await prisma.outboundNumber.updateMany({
+      where: { phoneNumber: row.fromNumber, healthy: true },
+      data: { healthy: false, restedUntil, unhealthyReason: reason },
+    });
+
+    if (rested.count > 0) {
+      console.warn(`Resting caller ID ${row.fromNumber} until ${restedUntil.toISOString()}: ${reason}`, metrics);
+    }
+  }
+}
+
+/**
+ * Per-number health and metrics for the last `days` days, in total and by day.
+ */
+export async function numberHealthReport(days: number) {
+  const since = new Date(Date.now() - days * DAY_MS);
+  const [numbers, rows] = await Promise.all([
+    prisma.outboundNumber.findMany({ orderBy: [{ state: 'asc' }, { areaCode: 'asc' }] }),
+    queryMetrics(since, { byDay: true }),
+  ]);
+
+  return numbers.map(number => {
+    const daily = rows.filter(row => row.fromNumber === number.phoneNumber);
+    const totals = daily.reduce<MetricsRow>((sum, row) => ({
+      ...sum,
+      calls: sum.calls + row.calls,
+      finished: sum.finished + row.finished,
+      answered: sum.answered + row.answered,
+      shortCalls: sum.shortCalls + row.shortCalls,
+      busy: sum.busy + row.busy,
+      noAnswer: sum.noAnswer + row.noAnswer,
+      voicemail: sum.voicemail + row.voicemail,
+      failed: sum.failed + row.failed,
+    }), {
+      fromNumber: number.phoneNumber,
+      day: null,
+      calls: 0,
+      finished: 0,
+      answered: 0,
+      shortCalls: 0,
+      busy: 0,
+      noAnswer: 0,
+      voicemail: 0,
+      failed: 0,
+    });
+
+    return {
+      phoneNumber: number.phoneNumber,
+      areaCode: number.areaCode,
+      state: number.state,
+      healthy: number.healthy,
+      restedUntil: number.restedUntil,
+      unhealthyReason: number.unhealthyReason,
+      callCount: number.callCount,
+      lastUsedAt: number.lastUsedAt,
+      totals: toMetrics(totals),
+      daily: daily.map(row => ({
+        date: row.day!.toISOString().slice(0, 10),
+        ...toMetrics(row),
+      })),
+    };
+  });
+}
@@ -0,0 +1,274 @@
+import crypto from 'crypto';
+import { Prisma, SessionStatus } from '@prisma/client';
+import { prisma } from './db.js';
+import { config } from './config.js';
+import { CODE_WORDS } from './code-words.js';
+
+/**
+ * Pair codes come from the PairCode table, which holds every code of the
+ * configured format (PAIR_CODE_FORMAT) in a shuffled order. A new session
+ * claims a free code in the transaction that creates it, so the database -
+ * not a check-then-insert loop - keeps two live sessions from sharing a code.
+ * Codes go back to the pool once their session is paired, activated or
+ * expired.
+ */
+
+// Three-word codes have far more combinations than are ever live at once,
+// so a pool is seeded with at most this many
+const MAX_POOL_SIZE = 20000;
+
+export class PairCodePoolExhaustedError extends Error {
+  constructor() {
+    super('All pair codes are in use');
+    this.name = 'PairCodePoolExhaustedError';
+  }
+}
+
+// Since this process started
+const counters = { claims: 0, releases: 0, exhausted: 0 };
+
+/**
+ * The digits or words a code is made of, and what each one could be instead.
+ */
+function codeParts(code: string): { parts: string[]; alphabet: readonly string[]; separator: string } {
+  return code.includes('-')
+    ? { parts: code.split('-'), alphabet: CODE_WORDS, separator: '-' }
+    : { parts: code.split(''), alphabet: '0123456789'.split(''), separator: '' };
+}
+
+// Every code of the configured format, or a random sample when there are
+// more than MAX_POOL_SIZE
+function poolCodes(): string[] {
+  if (config.pairCodes.format !== 'words') {
+    return Array.from({ length: 10000 }, (_, i) => String(i).padStart(4, '0'));
+  }
+
+  const count = config.pairCodes.words;
+  let combinations = 1;
+  for (let i = 0; i < count; i++) {
+    combinations *= CODE_WORDS.length - i;
+  }
+
+  const codes = new Set<string>();
+  if (combinations <= MAX_POOL_SIZE) {
+    const extend = (words: string[]) => {
+      if (words.length === count) {
+        codes.add(words.join('-'));
+        return;
+      }
+      for (const word of CODE_WORDS) {
+        if (!words.includes(word)) extend([...words, word]);
+      }
+    };
+    extend([]);
+  } else {
+    while (codes.size < MAX_POOL_SIZE) {
+      const words: string[] = [];
+      while (words.length < count) {
+        const word = CODE_WORDS[crypto.randomInt(CODE_WORDS.length)];
+        if (!words.includes(word)) words.push(word);
+      }
+      codes.add(words.join('-'));
+    }
+  }
+  return [...codes];
+}
+
+/**
+ * Fill the pool for the configured format with any codes it's missing, in a
+ * random order. Safe to run on every start.
+ */
+export async function ensurePairCodePool() {
+  const format = config.pairCodes.format;
+  const codes = poolCodes();
+
+  if (format === 'words') {
+    await retireUnknownWordCodes();
+  }
+
+  const existing = await prisma.pairCode.count({ where: { format } });
+  if (existing >= codes.length) {
+    return;
+  }
+
+  for (let i = codes.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [codes[i], codes[j]] = [codes[j], codes[i]];
+  }
+
+  const result = await prisma.pairCode.createMany({
+    data: codes.map((code, position) => ({ code, format, position })),
+    skipDuplicates: true,
+  });
+  console.log(`Seeded ${result.count} ${format} pair codes`);
+}
+
+/**
+ * Delete free word codes that use a word since dropped from CODE_WORDS - the
+ * parser would no longer recognise them. Codes still held are retired on a
+ * later start, once released.
+ */
+async function retireUnknownWordCodes() {
+  const known = new Set<string>(CODE_WORDS);
+  const free = await prisma.pairCode.findMany({
+    where: { format: 'words', sessionId: null },
+    select: { code: true },
+  });
+
+  const unknown = free
+    .map(entry => entry.code)
+    .filter(code => code.split('-').some(word => !known.has(word)));
+  if (unknown.length === 0) {
+    return;
+  }
+
+  const result = await prisma.pairCode.deleteMany({ where: { code: { in: unknown }, sessionId: null } });
+  console.log(`Retired ${result.count} word pair codes no longer in the wordlist`);
+}
+
+/**
+ * Claim a free code for `sessionId` inside `tx`. Codes never handed out come
+ * first, then the one released longest ago, so a stale code read off an old
+ * page is unlikely to reach someone else's session. Concurrent claims skip
+ * each other's locked rows rather than queueing on them.
+ */
+async function claimFreeCode(tx: Prisma.TransactionClient, sessionId: string): Promise<string | null> {
+  const rows = await tx.$queryRaw<Array<{ code: string }>>`
+    UPDATE "PairCode"
+    SET "sessionId" = ${sessionId}, "claimedAt" = now()
+    WHERE code = (
+      SELECT code FROM "PairCode"
+      WHERE "sessionId" IS NULL AND format = ${config.pairCodes.format}
+      ORDER BY "releasedAt" ASC NULLS FIRST, position
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING code
+  `;
+  return rows[0]?.code ?? null;
+}
+
+/**
+ * Claim a code for a session being created in `tx`. If the pool looks full,
+ * codes held by dead sessions are swept back first.
+ *
+ * @throws PairCodePoolExhaustedError when every code belongs to a live session
+ */
+export async function claimPairCode(tx: Prisma.TransactionClient, sessionId: string): Promise<string> {
+  let code = await claimFreeCode(tx, sessionId);
+
+  if (!code && (await releaseStalePairCodes(tx)) > 0) {
+    code = await claimFreeCode(tx, sessionId);
+  }
+
+  if (!code) {
+    counters.exhausted++;
+    console.error('Pair code pool exhausted - refusing new sessions');
+    throw new PairCodePoolExhaustedError();
+  }
+
+  counters.claims++;
+  return code;
+}
+
+/**
+ * The session holding `code`, if any.
+ */
+export async function sessionIdForPairCode(code: string): Promise<string | null> {
+  const entry = await prisma.pairCode.findUnique({ where: { code } });
+  return entry?.sessionId ?? null;
+}
+
+/**
+ * Codes held by sessions still waiting to pair that are one digit (or word)
+ * away from `code` - what a single mis-heard digit would produce.
+ */
+export async function findNearbyLiveCodes(code: string): Promise<string[]> {
+  const { parts, alphabet, separator } = codeParts(code);
+
+  const neighbours: string[] = [];
+  parts.forEach((part, i) => {
+    for (const replacement of alphabet) {
+      if (replacement !== part) {
+        neighbours.push([...parts.slice(0, i), replacement, ...parts.slice(i + 1)].join(separator));
+      }
+    }
+  });
+
+  const claimed = await prisma.pairCode.findMany({
+    where: { code: { in: neighbours }, sessionId: { not: null } },
+  });
+  if (claimed.length === 0) {
+    return [];
+  }
+
+  const live = await prisma.session.findMany({
+    where: {
+      id: { in: claimed.map(entry => entry.sessionId!) },
+      status: SessionStatus.CREATED,
+      expiresAt: { gt: new Date() },
+    },
+    select: { id: true },
+  });
+  const liveIds = new Set(live.map(session => session.id));
+
+  return claimed.filter(entry => liveIds.has(entry.sessionId!)).map(entry => entry.code);
+}
+
+/**
+ * Return a session's code to the pool. A no-op if it doesn't hold one.
+ */
+export async function releasePairCode(sessionId: string) {
+  const result = await prisma.pairCode.updateMany({
+    where: { sessionId },
+    data: { sessionId: null, claimedAt: null, releasedAt: new Date() },
+  });
+  counters.releases += result.count;
+}
+
+/**
+ * Release codes whose session is gone, no longer waiting to pair, or expired.
+ */
+export async function releaseStalePairCodes(client: Prisma.TransactionClient = prisma): Promise<number> {
+  const released = await client.$executeRaw`
+    UPDATE "PairCode" p
+    SET "sessionId" = NULL, "claimedAt" = NULL, "releasedAt" = now()
+    WHERE p."sessionId" IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM "Session" s
+        WHERE s.id = p."sessionId" AND s.status = 'CREATED' AND s."expiresAt" > now()
+      )
+  `;
+  counters.releases += released;
+  return released;
+}
+
+/**
+ * Usage of the pool for the configured format.
+ */
+export async function pairCodePoolStats() {
+  const format = config.pairCodes.format;
+  const [total, claimed] = await Promise.all([
+    prisma.pairCode.count({ where: { format } }),
+    prisma.pairCode.count({ where: { format, sessionId: { not: null } } }),
+  ]);
+
+  return {
+    format,
+    total,
+    claimed,
+    free: total - claimed,
+    utilization: total > 0 ? claimed / total : 1,
+    sinceStart: { ...counters },
+  };
+}
+
+/**
+ * Warn when the pool is running low. Run from the cleanup job.
+ */
+export async function checkPairCodePool() {
+  const stats = await pairCodePoolStats();
+  if (stats.utilization >= config.pairCodes.warnUtilization) {
+    console.warn(`Pair code pool ${Math.round(stats.utilization * 100)}% used (${stats.free} free)`);
+  }
+}
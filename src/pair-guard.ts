@@ -0,0 +1,116 @@
+import { prisma } from './db.js';
+import { config } from './config.js';
+import { logSecurityEvent } from './webhook-auth.js';
+import { raiseAdminAlert } from './admin-alerts.js';
+
+/**
+ * Second layer of pair code brute-force protection. RateLimit limits each
+ * caller number, but with so few codes an attacker rotating or spoofing
+ * caller IDs gets a fresh allowance with every number. This guard counts
+ * failed guesses from everyone over a sliding window: too many overall pauses
+ * guessing for all callers for a cool-off, and too many on one code pauses
+ * that code.
+ */
+
+const GLOBAL_SCOPE = 'global';
+
+export type PairGuardVerdict =
+  | { allowed: true }
+  | { allowed: false; scope: 'global' | 'code'; lockedUntil: Date };
+
+/**
+ * Whether a guess at `code` may be checked at all right now. Runs before the
+ * session lookup, so a paused code reveals nothing about live sessions.
+ */
+export async function checkPairGuard(code: string): Promise<PairGuardVerdict> {
+  const lockouts = await prisma.pairLockout.findMany({
+    where: { scope: { in: [GLOBAL_SCOPE, code] }, lockedUntil: { gt: new Date() } },
+  });
+  const lockout = lockouts.find(l => l.scope === GLOBAL_SCOPE) || lockouts[0];
+
+  if (!lockout) {
+    return { allowed: true };
+  }
+  return {
+    allowed: false,
+    scope: lockout.scope === GLOBAL_SCOPE ? 'global' : 'code',
+    lockedUntil: lockout.lockedUntil,
+  };
+}
+
+/**
+ * Record a guess that matched no session, and start a lockout if that pushes
+ * the window over a threshold.
+ */
+export async function recordPairFailure(code: string, callerNumber: string) {
+  const windowStart = new Date(Date.now() - config.pairGuard.windowSeconds * 1000);
+
+  await prisma.pairFailure.create({ data: { code, callerNumber } });
+
+  const [failures, codeFailures] = await Promise.all([
+    prisma.pairFailure.count({ where: { createdAt: { gt: windowStart } } }),
+    prisma.pairFailure.count({ where: { code, createdAt: { gt: windowStart } } }),
+  ]);
+
+  if (failures >= config.pairGuard.maxFailures) {
+    await startLockout(GLOBAL_SCOPE, failures);
+  }
+  if (codeFailures >= config.pairGuard.maxCodeFailures) {
+    await startLockout(code, codeFailures);
+  }
+}
+
+/**
+ * Pause guessing for `scope`. Raises an admin alert when a lockout starts,
+ * not for every failure counted during one.
+ */
+async function startLockout(scope: string, failures: number) {
+  const now = new Date();
+  const existing = await prisma.pairLockout.findUnique({ where: { scope } });
+  if (existing && existing.lockedUntil > now) {
+    return;
+  }
+
+  const lockedUntil = new Date(now.getTime() + config.pairGuard.coolOffSeconds * 1000);
+  await prisma.pairLockout.upsert({
+    where: { scope },
+    create: { scope, lockedUntil, failures },
+    update: { lockedUntil, failures, createdAt: now },
+  });
+
+  const details = {
+    scope,
+    failures,
+    windowSeconds: config.pairGuard.windowSeconds,
+    lockedUntil: lockedUntil.toISOString(),
+  };
+  logSecurityEvent('pair_code_guessing', null, details);
+  await raiseAdminAlert('pair_code_guessing', details);
+}
+
+/**
+ * Failed guesses in the current window and the lockouts in force.
+ */
+export async function pairGuardStatus() {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - config.pairGuard.windowSeconds * 1000);
+
+  const [failures, lockouts] = await Promise.all([
+    prisma.pairFailure.count({ where: { createdAt: { gt: windowStart } } }),
+    prisma.pairLockout.findMany({ where: { lockedUntil: { gt: now } }, orderBy: { createdAt: 'asc' } }),
+  ]);
+
+  return { windowSeconds: config.pairGuard.windowSeconds, failures, lockouts };
+}
+
+/**
+ * Drop failures that have slid out of the window and lockouts that are over.
+ * Run from the cleanup job.
+ */
+export async function prunePairGuard() {
+  const now = new Date();
+  await prisma.pairFailure.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - config.pairGuard.windowSeconds * 1000) } },
+  });
+  await prisma.pairLockout.deleteMany({ where: { lockedUntil: { lt: now } } });
+}
@@ -0,0 +1,33 @@
+export function maskPhone(phone: string): string {
+  if (!phone || phone.length < 4) return '****';
+  return `(***) ***-${phone.slice(-4)}`;
+}
+
+/**
+ * Normalize a typed US number to E.164, or null if it isn't a valid NANP
+ * number (area code and exchange can't start with 0 or 1).
+ */
+export function normalizePhoneNumber(input: unknown): string | null {
+  if (typeof input !== 'string') return null;
+
+  let digits = input.replace(/\D/g, '');
+  if (digits.length === 11 && digits[0] === '1') {
+    digits = digits.slice(1);
+  }
+
+  if (!/^[2-9]\d{2}[2-9]\d{6}$/.test(digits)) {
+    return null;
+  }
+  return `+1${digits}`;
+}
+
+export function formatPhoneForSpeech(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length === 10) {
+    return `${digits.slice(0, 3)}, ${digits.slice(3, 6)}, ${digits.slice(6)}`;
+  }
+  if (digits.length === 11 && digits[0] === '1') {
+    return `${digits.slice(1, 4)}, ${digits.slice(4, 7)}, ${digits.slice(7)}`;
+  }
+  return digits.split('').join(' ');
+}
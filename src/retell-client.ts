@@ -1,4 +1,7 @@
 import { config } from './config.js';
+import { createSessionRef, callbackBinding } from './signing.js';
+import { maskPhone } from './phone.js';
+import { assertNotOnDoNotCallList } from './do-not-call.js';
 
 const RETELL_API_BASE = 'https://api.retellai.com/v2';
 
@@ -16,6 +19,7 @@ interface RetellCall {
   agent_id: string;
   from_number: string;
   to_number: string;
+  disconnection_reason?: string;
   metadata?: Record<string, string>;
 }
 
@@ -47,17 +51,23 @@ async function retellRequest<T>(
  */
 export async function createOutboundCall(params: {
   toNumber: string;
+  /** Must be a number imported into Retell; defaults to TWILIO_PHONE_NUMBER */
+  fromNumber?: string;
   sessionId: string;
   callerName: string;
 }): Promise<RetellCall> {
   const { toNumber, sessionId, callerName } = params;
 
+  await assertNotOnDoNotCallList(toNumber);
+
   const callParams: CreateCallParams = {
     agentId: config.retell.callbackAgentId || config.retell.agentId,
     toNumber,
-    fromNumber: config.twilio.phoneNumber,
+    fromNumber: params.fromNumber || config.twilio.phoneNumber,
     metadata: {
       sessionId,
+      // Signed ref the webhook trusts instead of the plain sessionId
+      sessionRef: createSessionRef(sessionId, callbackBinding(toNumber)),
       callerName,
     },
     retellLlmDynamicVariables: {
@@ -102,8 +112,3 @@ export async function endCall(callId: string): Promise<void> {
     method: 'POST',
   });
 }
-
-function maskPhone(phone: string): string {
-  if (!phone || phone.length < 4) return '****';
-  return `(***) ***-${phone.slice(-4)}`;
-}
@@ -1,28 +1,23 @@
 import { Router, Request, Response } from 'express';
-import { config } from './config.js';
-import {
-  findSessionByCode,
-  pairSession,
-  createEvent,
-  checkRateLimit,
-  recordFailedAttempt,
-  clearRateLimit,
-  extendSession,
-  getSession,
-  updateSessionPhone,
-} from './session.js';
-import { emitToSession } from './websocket.js';
-import { createOutboundCall } from './retell-client.js';
+import { createEvent } from './session.js';
+import { callStateStore, loadCallState } from './call-state.js';
+import { findStepByTool, runStep } from './flow.js';
+import { verifyRetellSignature, logSecurityEvent } from './webhook-auth.js';
+import { resolveSessionRef, callbackBinding } from './signing.js';
+import { handleCallStatus } from './callback.js';
+import { RetellVoiceProvider } from './voice-provider.js';
+import { reportTransferConnected, reportTransferFailed } from './transfer.js';
 
 const router = Router();
 
-// Store call state (in production, use Redis)
-const callState = new Map<string, {
-  name?: string;
-  sessionId?: string;
-  callerNumber?: string;
-  codeAttempts: number;
-}>();
+// Only used to read webhook statuses - callbacks are placed in callback.ts
+const retellVoiceProvider = new RetellVoiceProvider();
+
+// disconnection_reason values meaning the agent's transfer_call reached the rep
+const TRANSFER_CONNECTED_REASONS = ['call_transfer', 'transfer_bridged'];
+
+// Both the webhook and custom functions are called by Retell - verify every request
+router.use(verifyRetellSignature);
 
 // ============================================================================
 // Retell Webhook - Call Lifecycle Events
@@ -39,6 +34,7 @@ interface RetellWebhookEvent {
     metadata?: Record<string, string>;
     start_timestamp?: number;
     end_timestamp?: number;
+    disconnection_reason?: string;
     transcript?: string;
     recording_url?: string;
   };
@@ -53,28 +49,49 @@ router.post('/webhook', async (req: Request, res: Response) => {
   });
 
   try {
+    // Callback calls we placed carry their session in signed metadata; report
+    // their progress to the dialer (answered on start, failed on dial errors)
+    const callbackSessionId = event.call ? resolveCallbackSession(event.call) : null;
+    const status = retellVoiceProvider.normalizeStatusEvent(event);
+    if (callbackSessionId && status) {
+      await handleCallStatus(callbackSessionId, status);
+    }
+
     switch (event.event) {
-      case 'call_started':
-        // Initialize call state
-        callState.set(event.call.call_id, {
-          callerNumber: event.call.from_number,
-          codeAttempts: 0,
-        });
+      case 'call_started': {
+        // Initialize call state, keeping the session binding for callback calls
+        const state = await loadCallState(event.call.call_id, 'retell');
+        state.callerNumber = event.call.from_number;
+        state.sessionId = state.sessionId || callbackSessionId || undefined;
+        await callStateStore.set(state);
         break;
+      }
 
       case 'call_ended': {
         // Clean up and emit completion if needed
-        const state = callState.get(event.call.call_id);
+        const state = await callStateStore.get(event.call.call_id);
+
+        // transfer_to_rep picked a rep; the call ending says whether the bridge worked
+        if (state?.sessionId && state.transferRepId) {
+          const reason = event.call.disconnection_reason || '';
+          if (TRANSFER_CONNECTED_REASONS.includes(reason)) {
+            await reportTransferConnected(state.sessionId, state.transferRepId);
+          } else {
+            await reportTransferFailed(state.sessionId, state.transferRepId, reason || 'failed');
+          }
+        }
+
         if (state?.sessionId) {
           await createEvent(state.sessionId, 'call_ended', {
             callId: event.call.call_id,
             duration: event.call.end_timestamp && event.call.start_timestamp
               ? Math.round((event.call.end_timestamp - event.call.start_timestamp) / 1000)
               : undefined,
+            disconnectionReason: event.call.disconnection_reason,
             timestamp: new Date().toISOString(),
           });
         }
-        callState.delete(event.call.call_id);
+        await callStateStore.delete(event.call.call_id);
         break;
       }
 
@@ -111,6 +128,7 @@ interface CustomFunctionResponse {
   information?: Record<string, unknown>;
 }
 
+// Each custom function submits the answer for one flow step (see flow.ts)
 router.post('/custom-function', async (req: Request, res: Response) => {
   const request = req.body as CustomFunctionRequest;
   const { call, name, args } = request;
@@ -120,478 +138,67 @@ router.post('/custom-function', async (req: Request, res: Response) => {
     args,
   });
 
-  try {
-    let response: CustomFunctionResponse;
-
-    switch (name) {
-      case 'capture_name':
-        response = await handleCaptureName(call.call_id, args);
-        break;
-
-      case 'verify_code':
-        response = await handleVerifyCode(call.call_id, call.from_number || '', args);
-        break;
-
-      case 'capture_vertical':
-        response = await handleCaptureVertical(call.call_id, args);
-        break;
-
-      case 'capture_pain':
-        response = await handleCapturePain(call.call_id, args);
-        break;
-
-      case 'initiate_callback':
-        response = await handleInitiateCallback(call.call_id, args);
-        break;
-
-      case 'schedule_appointment':
-        response = await handleScheduleAppointment(call.call_id, args);
-        break;
-
-      default:
-        console.warn('Unknown custom function:', name);
-        response = { result: 'Unknown function' };
-    }
-
-    res.json(response);
-  } catch (error) {
-    console.error('Custom function error:', error);
-    res.status(500).json({ result: 'An error occurred. Please try again.' });
-  }
-});
-
-// ============================================================================
-// Custom Function Handlers
-// ============================================================================
-
-async function handleCaptureName(
-  callId: string,
-  args: Record<string, unknown>
-): Promise<CustomFunctionResponse> {
-  const name = sanitizeName(String(args.name || ''));
-
-  const state = callState.get(callId) || { codeAttempts: 0 };
-  state.name = name;
-  callState.set(callId, state);
-
-  console.log('Captured name:', name, 'for call:', callId);
-
-  return {
-    result: `Got it, ${name}. Now please say the 4-digit code shown on your screen.`,
-    information: { captured_name: name },
-  };
-}
-
-async function handleVerifyCode(
-  callId: string,
-  callerNumber: string,
-  args: Record<string, unknown>
-): Promise<CustomFunctionResponse> {
-  const code = String(args.code || '').replace(/\D/g, '');
-  const state = callState.get(callId) || { codeAttempts: 0 };
-  const callerName = state.name || 'Caller';
-
-  // Check rate limit
-  const rateLimitCheck = await checkRateLimit(callerNumber);
-  if (!rateLimitCheck.allowed) {
-    const waitSeconds = rateLimitCheck.lockedUntil
-      ? Math.ceil((rateLimitCheck.lockedUntil.getTime() - Date.now()) / 1000)
-      : 60;
-    return {
-      result: `Too many failed attempts. Please wait ${waitSeconds} seconds and try again.`,
-    };
-  }
-
-  // Validate code format
-  if (code.length !== 4) {
-    state.codeAttempts++;
-    callState.set(callId, state);
-    await recordFailedAttempt(callerNumber);
-
-    if (state.codeAttempts >= 3) {
-      return {
-        result: 'Sorry, I couldn\'t understand the code. Please refresh the webpage and try again.',
-      };
-    }
-
-    return {
-      result: 'I need a 4-digit code. Please say the digits one at a time, like "four eight two seven".',
-    };
+  const step = findStepByTool(name);
+  if (!step) {
+    console.warn('Unknown custom function:', name);
+    return res.json({ result: 'Unknown function' });
   }
 
-  // Find session
-  const session = await findSessionByCode(code);
-
-  if (!session) {
-    state.codeAttempts++;
-    callState.set(callId, state);
-    await recordFailedAttempt(callerNumber);
+  try {
+    const state = await loadCallState(call.call_id, 'retell');
 
-    if (state.codeAttempts >= 3) {
-      return {
-        result: 'That code doesn\'t match any active session. Please refresh the webpage and try again.',
-      };
+    // Callback calls carry their session in signed metadata
+    if (!state.sessionId && step.tool.leg === 'callback') {
+      state.sessionId = resolveCallbackSession(call) || undefined;
     }
 
-    return {
-      result: 'I couldn\'t find that code. Please make sure you\'re reading the code from your webpage.',
-    };
-  }
-
-  // Success - pair the session
-  await pairSession(session.id, callerNumber, callerName, callId);
-  await clearRateLimit(callerNumber);
-
-  state.sessionId = session.id;
-  callState.set(callId, state);
-
-  // Emit WebSocket event
-  emitToSession(session.id, 'paired', {
-    callerName,
-    timestamp: new Date().toISOString(),
-  });
-
-  return {
-    result: `Connected! Keep the webpage open, ${callerName}. I can see your browser updating in real-time now.`,
-    information: { session_id: session.id, paired: true },
-  };
-}
-
-async function handleCaptureVertical(
-  callId: string,
-  args: Record<string, unknown>
-): Promise<CustomFunctionResponse> {
-  const state = callState.get(callId);
-  if (!state?.sessionId) {
-    return { result: 'Please verify your code first.' };
-  }
-
-  // Accept any industry - just clean it up a bit
-  const rawVertical = String(args.vertical || 'other').trim();
-  const vertical = rawVertical.toLowerCase().replace(/\s+/g, '_');
-
-  await createEvent(state.sessionId, 'vertical_selected', {
-    vertical,
-    rawVertical,
-    timestamp: new Date().toISOString(),
-  });
-
-  emitToSession(state.sessionId, 'vertical_selected', {
-    vertical,
-    displayName: rawVertical,
-    timestamp: new Date().toISOString(),
-  });
-
-  await extendSession(state.sessionId);
-
-  return {
-    result: `Great, ${rawVertical}! Check your browser - you should see it updating. Now, what's your biggest challenge with outbound calling?`,
-    information: { vertical },
-  };
-}
-
-async function handleCapturePain(
-  callId: string,
-  args: Record<string, unknown>
-): Promise<CustomFunctionResponse> {
-  const state = callState.get(callId);
-  if (!state?.sessionId) {
-    return { result: 'Please verify your code first.' };
-  }
-
-  const rawPain = String(args.pain || '').trim();
-  const painLower = rawPain.toLowerCase();
-
-  // Check if it's spam-related
-  const isSpam = painLower.includes('spam') ||
-                 painLower.includes('flag') ||
-                 painLower.includes('blocked') ||
-                 painLower.includes('scam likely');
-
-  const pain = isSpam ? 'spam_flags' : painLower.replace(/\s+/g, '_');
-
-  await createEvent(state.sessionId, 'pain_selected', {
-    pain,
-    rawPain,
-    isSpam,
-    timestamp: new Date().toISOString(),
-  });
-
-  emitToSession(state.sessionId, 'pain_selected', {
-    pain,
-    displayName: rawPain,
-    isSpam,
-    timestamp: new Date().toISOString(),
-  });
-
-  await extendSession(state.sessionId);
-
-  // Different response for spam vs other pain points
-  if (isSpam) {
-    return {
-      result: 'Spam flags - check your screen right now. Does that look familiar? We can fix that. Now let me show you our power dialer - what\'s your phone number?',
-      information: { pain, isSpam: true },
-    };
-  }
-
-  return {
-    result: `${rawPain} - we hear that a lot! Check your browser. Now here's the exciting part - I'm going to demonstrate our power dialer by calling you back instantly. What's your phone number?`,
-    information: { pain },
-  };
-}
-
-async function handleInitiateCallback(
-  callId: string,
-  args: Record<string, unknown>
-): Promise<CustomFunctionResponse> {
-  const state = callState.get(callId);
-  if (!state?.sessionId) {
-    return { result: 'Please verify your code first.' };
-  }
-
-  const phoneNumber = normalizePhoneNumber(String(args.phone_number || ''));
-
-  if (!phoneNumber) {
-    return {
-      result: 'I didn\'t catch that phone number. Please say your 10-digit phone number digit by digit.',
-    };
-  }
-
-  // Update session with callback phone
-  await updateSessionPhone(state.sessionId, phoneNumber);
-
-  // Emit preparing event
-  await createEvent(state.sessionId, 'callback_preparing', {
-    phoneNumber: maskPhone(phoneNumber),
-    timestamp: new Date().toISOString(),
-  });
-
-  emitToSession(state.sessionId, 'callback_preparing', {
-    phoneNumber: maskPhone(phoneNumber),
-    timestamp: new Date().toISOString(),
-  });
-
-  // Schedule the callback after this call ends
-  setTimeout(async () => {
-    try {
-      await initiateCallback(state.sessionId!, phoneNumber, state.name || 'there');
-    } catch (error) {
-      console.error('Callback error:', error);
-      emitToSession(state.sessionId!, 'callback_failed', {
-        error: 'Failed to place call',
-        timestamp: new Date().toISOString(),
+    if (step.requiresSession && !state.sessionId) {
+      return res.json({
+        result: step.tool.leg === 'callback'
+          ? 'I couldn\'t find your session. Let\'s continue anyway.'
+          : 'Please verify your code first.',
       });
     }
-  }, 3000);
-
-  return {
-    result: `Got it! I have your number ending in ${phoneNumber.slice(-4)}. Watch your screen - the dialer is about to call you. Hang up now and answer the incoming call!`,
-    information: { phone_captured: true, phone_last_four: phoneNumber.slice(-4) },
-  };
-}
-
-async function handleScheduleAppointment(
-  callId: string,
-  args: Record<string, unknown>
-): Promise<CustomFunctionResponse> {
-  // For callback calls, get session from metadata
-  const state = callState.get(callId);
-  const sessionId = state?.sessionId || String(args.session_id || '');
-
-  if (!sessionId) {
-    return { result: 'I couldn\'t find your session. Let\'s continue anyway.' };
-  }
 
-  const wantsSchedule = String(args.wants_schedule || '').toLowerCase();
-  const isYes = ['yes', 'yeah', 'sure', 'okay', 'yep', 'absolutely', 'definitely'].some(
-    word => wantsSchedule.includes(word)
-  );
-
-  if (isYes) {
-    await createEvent(sessionId, 'schedule_requested', {
-      timestamp: new Date().toISOString(),
-    });
-
-    emitToSession(sessionId, 'schedule_requested', {
-      timestamp: new Date().toISOString(),
-    });
-
-    // Schedule a demo appointment
-    const appointmentDate = getNextBusinessDay();
-
-    await createEvent(sessionId, 'appointment_scheduled', {
-      date: appointmentDate,
-      time: '2:00 PM',
-      timestamp: new Date().toISOString(),
-    });
-
-    emitToSession(sessionId, 'appointment_scheduled', {
-      date: appointmentDate,
-      time: '2:00 PM',
-      timestamp: new Date().toISOString(),
-    });
-
-    return {
-      result: `Great! Check your screen - the calendar is now open. I've scheduled a demo follow-up for ${appointmentDate} at 2 PM. You should see it on the calendar now.`,
-      information: { scheduled: true, date: appointmentDate, time: '2:00 PM' },
-    };
-  } else {
-    await createEvent(sessionId, 'schedule_declined', {
-      timestamp: new Date().toISOString(),
-    });
-
-    emitToSession(sessionId, 'schedule_declined', {
-      timestamp: new Date().toISOString(),
-    });
-
-    return {
-      result: 'No problem! The calendar feature is there whenever you need it.',
-      information: { scheduled: false },
+    const response = await runStep(
+      step.id,
+      String(args[step.tool.argument] ?? ''),
+      'retell',
+      state,
+      call.from_number || ''
+    );
+
+    const result: CustomFunctionResponse = {
+      result: response.say.join(' '),
+      information: response.information,
     };
+    res.json(result);
+  } catch (error) {
+    console.error('Custom function error:', error);
+    res.status(500).json({ result: 'An error occurred. Please try again.' });
   }
-}
+});
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
-async function initiateCallback(
-  sessionId: string,
-  phoneNumber: string,
-  callerName: string
-) {
-  const session = await getSession(sessionId);
-  if (!session) {
-    throw new Error('Session not found');
+/**
+ * Resolve the session for a callback call from the signed ref we put in its
+ * metadata. The ref is bound to the dialed number, so it only verifies on the
+ * call we placed. Never trust a session ID passed in function args.
+ */
+function resolveCallbackSession(call: { call_id: string; to_number?: string; metadata?: Record<string, string> }): string | null {
+  const ref = call.metadata?.sessionRef;
+  if (!ref) {
+    return null;
   }
 
-  // Emit dialing event
-  await createEvent(sessionId, 'callback_dialing', {
-    phoneNumber: maskPhone(phoneNumber),
-    timestamp: new Date().toISOString(),
-  });
-
-  emitToSession(sessionId, 'callback_dialing', {
-    phoneNumber: maskPhone(phoneNumber),
-    callerName,
-    timestamp: new Date().toISOString(),
-  });
-
-  // Create outbound call via Retell
-  const call = await createOutboundCall({
-    toNumber: phoneNumber,
-    sessionId,
-    callerName,
-  });
-
-  // Store session ID for callback call
-  callState.set(call.call_id, {
-    name: callerName,
-    sessionId,
-    codeAttempts: 0,
-  });
-
-  await createEvent(sessionId, 'callback_initiated', {
-    callId: call.call_id,
-    timestamp: new Date().toISOString(),
-  });
-
-  // Emit answered event (Retell handles the connection)
-  setTimeout(() => {
-    emitToSession(sessionId, 'callback_answered', {
-      callerName,
-      timestamp: new Date().toISOString(),
-    });
-  }, 2000);
-
-  console.log(`Callback initiated via Retell: ${call.call_id} to ${maskPhone(phoneNumber)}`);
-}
-
-function sanitizeName(speech: string): string {
-  if (!speech) return 'Caller';
-
-  let name = speech.trim()
-    .replace(/\b(my name is|i'm|i am|it's|this is|call me)\b/gi, '')
-    .trim();
-
-  name = name
-    .split(/\s+/)
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-    .join(' ');
-
-  name = name.replace(/[^a-zA-Z\s'-]/g, '').slice(0, 100);
-
-  return name || 'Caller';
-}
-
-function normalizeVertical(input: string): string {
-  const lower = input.toLowerCase();
-
-  if (lower.includes('real estate') || lower.includes('realtor') || lower.includes('property')) {
-    return 'real_estate';
-  }
-  if (lower.includes('insurance') || lower.includes('policy')) {
-    return 'insurance';
-  }
-  if (lower.includes('mortgage') || lower.includes('loan') || lower.includes('lending')) {
-    return 'mortgage';
-  }
-  return 'other';
-}
-
-function normalizePain(input: string): string {
-  const lower = input.toLowerCase();
-
-  if (lower.includes('spam') || lower.includes('flag') || lower.includes('blocked')) {
-    return 'spam_flags';
-  }
-  if (lower.includes('delay') || lower.includes('awkward') || lower.includes('pause')) {
-    return 'awkward_delay';
-  }
-  if (lower.includes('answer') || lower.includes('rate') || lower.includes('pickup')) {
-    return 'low_answer_rates';
-  }
-  if (lower.includes('speed') || lower.includes('slow') || lower.includes('fast')) {
-    return 'speed';
-  }
-  return 'other';
-}
-
-function normalizePhoneNumber(input: string): string | null {
-  const digits = input.replace(/\D/g, '');
-
-  if (digits.length === 10) {
-    return `+1${digits}`;
-  }
-  if (digits.length === 11 && digits[0] === '1') {
-    return `+${digits}`;
-  }
-  if (digits.length > 10) {
-    return `+1${digits.slice(-10)}`;
-  }
-
-  return null;
-}
-
-function maskPhone(phone: string): string {
-  if (!phone || phone.length < 4) return '****';
-  return `(***) ***-${phone.slice(-4)}`;
-}
-
-function getNextBusinessDay(): string {
-  const today = new Date();
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-
-  while (tomorrow.getDay() === 0 || tomorrow.getDay() === 6) {
-    tomorrow.setDate(tomorrow.getDate() + 1);
+  const sessionId = resolveSessionRef(ref, call.to_number ? callbackBinding(call.to_number) : undefined);
+  if (!sessionId) {
+    logSecurityEvent('session_ref_invalid', null, { callId: call.call_id });
   }
-
-  return tomorrow.toLocaleDateString('en-US', {
-    weekday: 'long',
-    month: 'long',
-    day: 'numeric',
-  });
+  return sessionId;
 }
 
 export default router;
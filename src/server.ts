@@ -9,7 +9,13 @@ import { config, validateConfig, validateTwilioCredentials, validateRetellCreden
 import { connectDatabase, disconnectDatabase } from './db.js';
 import { initializeWebSocket } from './websocket.js';
 import { cleanupExpiredSessions } from './session.js';
+import { ensurePairCodePool, checkPairCodePool } from './pair-codes.js';
+import { prunePairGuard } from './pair-guard.js';
+import { callStateStore } from './call-state.js';
+import { registerJobHandler, scheduleRecurringJob, startJobWorker, deleteCompletedJobs } from './jobs.js';
+import { evaluateNumberHealth, NUMBER_HEALTH_JOB } from './number-health.js';
 import apiRoutes from './api.js';
+import adminRoutes from './admin.js';
 import twilioRoutes from './twilio.js';
 import retellRoutes from './retell.js';
 
@@ -22,6 +28,7 @@ async function main() {
 
   // Connect to database
   await connectDatabase();
+  await ensurePairCodePool();
 
   // Create Express app
   const app = express();
@@ -38,7 +45,12 @@ async function main() {
 
   // Parse URL-encoded bodies for Twilio webhooks
   app.use(express.urlencoded({ extended: true }));
-  app.use(express.json());
+  // Keep the raw JSON body around for Retell signature verification
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      (req as express.Request).rawBody = buf.toString('utf8');
+    },
+  }));
   app.use(cookieParser());
 
   // Request logging
@@ -47,6 +59,9 @@ async function main() {
     next();
   });
 
+  // Admin API (do-not-call list, caller ID pool, rep roster, pair codes), off unless ADMIN_API_KEY is set
+  app.use('/api/admin', adminRoutes);
+
   // API routes
   app.use('/api', apiRoutes);
 
@@ -77,19 +92,32 @@ async function main() {
     res.status(500).json({ error: 'Internal server error' });
   });
 
-  // Session cleanup job (every minute)
-  const cleanupInterval = setInterval(async () => {
-    try {
-      await cleanupExpiredSessions();
-    } catch (error) {
-      console.error('Cleanup error:', error);
+  // Session, call state and job cleanup (every minute)
+  registerJobHandler('cleanup', async () => {
+    await cleanupExpiredSessions();
+    await checkPairCodePool();
+    await prunePairGuard();
+
+    const expiredCalls = await callStateStore.cleanupExpired();
+    if (expiredCalls > 0) {
+      console.log(`Removed ${expiredCalls} expired call states`);
     }
-  }, 60 * 1000);
+
+    await deleteCompletedJobs(24 * 60 * 60 * 1000);
+  });
+  await scheduleRecurringJob('cleanup', 60 * 1000);
+
+  // Rest caller IDs that look spam-flagged, and bring rested ones back
+  registerJobHandler(NUMBER_HEALTH_JOB, evaluateNumberHealth);
+  await scheduleRecurringJob(NUMBER_HEALTH_JOB, config.numberHealth.checkIntervalSeconds * 1000);
+
+  // Background jobs - callbacks, cleanup and number health
+  const stopJobWorker = startJobWorker();
 
   // Graceful shutdown
   const shutdown = async () => {
     console.log('Shutting down...');
-    clearInterval(cleanupInterval);
+    await stopJobWorker();
     await disconnectDatabase();
     httpServer.close();
     process.exit(0);
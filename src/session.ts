@@ -1,33 +1,8 @@
 import { prisma } from './db.js';
 import { config } from './config.js';
 import { SessionStatus } from '@prisma/client';
-
-export async function generateUniquePairCode(): Promise<string> {
-  const maxAttempts = 100;
-
-  for (let i = 0; i < maxAttempts; i++) {
-    const code = String(Math.floor(Math.random() * 10000)).padStart(4, '0');
-
-    // Check if code is already in use by an active session
-    const existing = await prisma.session.findFirst({
-      where: {
-        pairCode: code,
-        status: {
-          in: [SessionStatus.CREATED, SessionStatus.PAIRED, SessionStatus.ACTIVE],
-        },
-        expiresAt: {
-          gt: new Date(),
-        },
-      },
-    });
-
-    if (!existing) {
-      return code;
-    }
-  }
-
-  throw new Error('Unable to generate unique pair code');
-}
+import { v4 as uuidv4 } from 'uuid';
+import { claimPairCode, releasePairCode, releaseStalePairCodes, sessionIdForPairCode } from './pair-codes.js';
 
 export async function createSession(browserToken: string): Promise<{
   id: string;
@@ -55,17 +30,23 @@ export async function createSession(browserToken: string): Promise<{
     };
   }
 
-  // Create new session
-  const pairCode = await generateUniquePairCode();
+  // Create new session, claiming its pair code in the same transaction so a
+  // failed insert hands the code straight back
   const expiresAt = new Date(Date.now() + config.session.expiryMinutes * 60 * 1000);
 
-  const session = await prisma.session.create({
-    data: {
-      browserToken,
-      pairCode,
-      expiresAt,
-      status: SessionStatus.CREATED,
-    },
+  const session = await prisma.$transaction(async tx => {
+    const id = uuidv4();
+    const pairCode = await claimPairCode(tx, id);
+
+    return tx.session.create({
+      data: {
+        id,
+        browserToken,
+        pairCode,
+        expiresAt,
+        status: SessionStatus.CREATED,
+      },
+    });
   });
 
   return {
@@ -82,10 +63,28 @@ export async function getSession(sessionId: string) {
   });
 }
 
+export async function isSessionOwner(sessionId: string, browserToken: string | undefined): Promise<boolean> {
+  if (!browserToken) {
+    return false;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { browserToken: true },
+  });
+
+  return session?.browserToken === browserToken;
+}
+
 export async function findSessionByCode(pairCode: string) {
+  const sessionId = await sessionIdForPairCode(pairCode);
+  if (!sessionId) {
+    return null;
+  }
+
   return prisma.session.findFirst({
     where: {
-      pairCode,
+      id: sessionId,
       status: SessionStatus.CREATED,
       expiresAt: {
         gt: new Date(),
@@ -94,16 +93,32 @@ export async function findSessionByCode(pairCode: string) {
   });
 }
 
+/**
+ * How the spoken code was matched: exactly, or one digit off and confirmed
+ * by the caller.
+ */
+export type CodeMatch = 'exact' | 'fuzzy';
+
+/**
+ * Pair a waiting session with an inbound call. The status check and the write
+ * are one conditional update, so when two callers say the same code at once
+ * only one of them pairs; the other gets false.
+ */
 export async function pairSession(
   sessionId: string,
   callerNumber: string,
   callerName: string,
-  callSid: string
+  callSid: string,
+  codeMatch: CodeMatch
 ) {
   const activeUntil = new Date(Date.now() + config.session.pairedExpiryMinutes * 60 * 1000);
 
-  const session = await prisma.session.update({
-    where: { id: sessionId },
+  const result = await prisma.session.updateMany({
+    where: {
+      id: sessionId,
+      status: SessionStatus.CREATED,
+      expiresAt: { gt: new Date() },
+    },
     data: {
       status: SessionStatus.PAIRED,
       callerNumber,
@@ -114,23 +129,50 @@ export async function pairSession(
     },
   });
 
+  if (result.count === 0) {
+    return false;
+  }
+
+  await releasePairCode(sessionId);
+
   // Create pairing event
   await createEvent(sessionId, 'paired', {
     callerName,
     callerNumber: maskPhoneNumber(callerNumber),
+    codeMatch,
     timestamp: new Date().toISOString(),
   });
 
-  return session;
+  return true;
 }
 
-export async function activateSession(sessionId: string) {
-  return prisma.session.update({
-    where: { id: sessionId },
+/**
+ * Start the demo from the browser without a paired inbound call. Only a
+ * session that hasn't been paired or activated yet can be activated.
+ */
+export async function activateSession(sessionId: string, callerName?: string) {
+  const activeUntil = new Date(Date.now() + config.session.pairedExpiryMinutes * 60 * 1000);
+
+  const result = await prisma.session.updateMany({
+    where: {
+      id: sessionId,
+      status: SessionStatus.CREATED,
+      expiresAt: { gt: new Date() },
+    },
     data: {
       status: SessionStatus.ACTIVE,
+      ...(callerName && { callerName }),
+      activeUntil,
+      expiresAt: activeUntil,
     },
   });
+
+  if (result.count === 0) {
+    return false;
+  }
+
+  await releasePairCode(sessionId);
+  return true;
 }
 
 export async function extendSession(sessionId: string) {
@@ -156,12 +198,14 @@ export async function updateSessionPhone(sessionId: string, callbackPhone: strin
 }
 
 export async function expireSession(sessionId: string) {
-  return prisma.session.update({
+  const session = await prisma.session.update({
     where: { id: sessionId },
     data: {
       status: SessionStatus.EXPIRED,
     },
   });
+  await releasePairCode(sessionId);
+  return session;
 }
 
 export async function createEvent(
@@ -197,6 +241,12 @@ export async function cleanupExpiredSessions() {
     console.log(`Expired ${result.count} sessions`);
   }
 
+  // Also catches codes left behind by sessions that ended any other way
+  const released = await releaseStalePairCodes();
+  if (released > 0) {
+    console.log(`Released ${released} pair codes`);
+  }
+
   return result.count;
 }
 
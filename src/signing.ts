@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { config } from './config.js';
+
+function hmac(purpose: string, value: string): string {
+  return crypto
+    .createHmac('sha256', config.session.secret)
+    .update(`${purpose}:${value}`)
+    .digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Binding for refs handed to an outbound callback. The callback's call SID
+ * doesn't exist until the provider creates it, so those refs are bound to the
+ * number being dialed instead (Twilio echoes it back as `To`).
+ */
+export function callbackBinding(phoneNumber: string): string {
+  return `callback:${phoneNumber}`;
+}
+
+/**
+ * Create a tamper-proof reference to a session for use in TwiML action URLs
+ * and call metadata. The ref is only valid for the call it is bound to
+ * (normally the call SID), so it can't be replayed from another call.
+ */
+export function createSessionRef(sessionId: string, binding: string): string {
+  return `${sessionId}.${hmac('session-ref', `${sessionId}:${binding}`)}`;
+}
+
+/**
+ * Resolve a session ref back to its session ID, or null if the ref is
+ * malformed, forged, or bound to a different call.
+ */
+export function resolveSessionRef(ref: unknown, binding: string | undefined): string | null {
+  if (typeof ref !== 'string' || !binding) {
+    return null;
+  }
+
+  const dot = ref.lastIndexOf('.');
+  if (dot <= 0) {
+    return null;
+  }
+
+  const sessionId = ref.slice(0, dot);
+  const signature = ref.slice(dot + 1);
+
+  return safeEqual(signature, hmac('session-ref', `${sessionId}:${binding}`)) ? sessionId : null;
+}
+
+export type SubscriptionRole = 'owner' | 'observer';
+
+/**
+ * Create a token that lets a socket subscribe to a session's live events.
+ * Owner tokens are issued with the session; observer tokens are read-only
+ * and handed out by the owner (e.g. to a sales rep watching the demo).
+ */
+export function createSubscriptionToken(
+  sessionId: string,
+  role: SubscriptionRole,
+  expiresAt: Date
+): string {
+  const payload = `${role}.${sessionId}.${expiresAt.getTime()}`;
+  return `${payload}.${hmac('subscription', payload)}`;
+}
+
+/**
+ * Verify a subscription token for the given session, returning its role, or
+ * null if it is forged, expired, or issued for a different session.
+ */
+export function verifySubscriptionToken(token: unknown, sessionId: string): SubscriptionRole | null {
+  if (typeof token !== 'string') {
+    return null;
+  }
+
+  const [role, tokenSessionId, expires, signature, ...rest] = token.split('.');
+  if (rest.length > 0 || !signature || (role !== 'owner' && role !== 'observer')) {
+    return null;
+  }
+
+  if (tokenSessionId !== sessionId || !(Number(expires) > Date.now())) {
+    return null;
+  }
+
+  const payload = `${role}.${tokenSessionId}.${expires}`;
+  return safeEqual(signature, hmac('subscription', payload)) ? role : null;
+}
@@ -1,3 +1,5 @@
+import { CODE_WORDS, CODE_WORD_HOMOPHONES } from './code-words.js';
+
 // Maps spoken words to digits
 const wordToDigit: Record<string, string> = {
   'zero': '0',
@@ -126,6 +128,63 @@ export function parseSpokenCode(speech: string): ParseResult {
   };
 }
 
+const codeWordSet = new Set<string>(CODE_WORDS);
+
+function toCodeWord(token: string): string | null {
+  if (codeWordSet.has(token)) {
+    return token;
+  }
+  if (Object.prototype.hasOwnProperty.call(CODE_WORD_HOMOPHONES, token)) {
+    return CODE_WORD_HOMOPHONES[token];
+  }
+  // "otters" -> "otter"
+  if (token.endsWith('s') && codeWordSet.has(token.slice(0, -1))) {
+    return token.slice(0, -1);
+  }
+  return null;
+}
+
+/**
+ * Parse a word-based pair code ("river-maple") of `wordCount` words. Anything
+ * that isn't a code word is ignored, so filler needs no special handling;
+ * common mis-hearings, plurals and words heard as two ("man go") are mapped
+ * back onto the wordlist.
+ */
+export function parseSpokenWordCode(speech: string, wordCount: number): ParseResult {
+  if (!speech || typeof speech !== 'string') {
+    return { success: false, rawInput: speech || '' };
+  }
+
+  const rawInput = speech.trim();
+  const tokens = rawInput.toLowerCase().replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+  const words: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const word = toCodeWord(tokens[i]);
+    if (word) {
+      words.push(word);
+      continue;
+    }
+
+    const joined = i + 1 < tokens.length ? toCodeWord(tokens[i] + tokens[i + 1]) : null;
+    if (joined) {
+      words.push(joined);
+      i++;
+    }
+  }
+
+  if (words.length >= wordCount) {
+    const code = words.slice(0, wordCount).join('-');
+    return { success: true, code, rawInput, normalized: code };
+  }
+
+  return {
+    success: false,
+    rawInput,
+    normalized: words.join('-') || undefined,
+  };
+}
+
 function parseCompoundNumbers(text: string): string | null {
   const compounds: Record<string, string> = {
     'ten': '10',
@@ -229,6 +288,33 @@ export function parsePainSelection(speech: string): string | null {
   return null;
 }
 
+export function parseYesNo(speech: string): 'yes' | 'no' | null {
+  const input = (speech || '').toLowerCase();
+
+  // Check negatives first so "that's not right" isn't read as "right"
+  if (/\b(no|nope|nah|wrong|incorrect|not right|not correct)\b/.test(input)) {
+    return 'no';
+  }
+  if (/\b(yes|yeah|yep|yup|sure|okay|ok|absolutely|definitely|correct|right)\b/.test(input)) {
+    return 'yes';
+  }
+
+  return null;
+}
+
+/**
+ * Whether the caller is asking for a person, e.g. "can I talk to a real
+ * person", "transfer me to sales", "representative".
+ */
+export function parseTransferRequest(speech: string): boolean {
+  const input = (speech || '').toLowerCase();
+
+  if (/\b(representative|operator|human|live agent|real person|sales ?rep)\b/.test(input)) {
+    return true;
+  }
+  return /\b(talk|speak|connect|transfer|put me through)\b.*\b(person|someone|somebody|rep|agent|sales|human)\b/.test(input);
+}
+
 export interface PhoneParseResult {
   success: boolean;
   number?: string;
@@ -0,0 +1,113 @@
+import { SalesRep } from '@prisma/client';
+import { prisma } from './db.js';
+import { publishEvent } from './events.js';
+
+/**
+ * Warm transfers from the callback to a live sales rep. Reps come from the
+ * SalesRep roster; each transfer goes to the available rep who was assigned
+ * least recently, so leads are shared round-robin across whoever is on.
+ */
+
+export type TransferTarget = Pick<SalesRep, 'id' | 'name' | 'phoneNumber'>;
+
+// Attempts to claim a rep before giving up when several transfers race for one
+const CLAIM_ATTEMPTS = 3;
+
+/**
+ * Claim the available rep assigned least recently, or null if nobody's available.
+ */
+export async function pickRep(): Promise<TransferTarget | null> {
+  for (let i = 0; i < CLAIM_ATTEMPTS; i++) {
+    const rep = await prisma.salesRep.findFirst({
+      where: { available: true },
+      orderBy: [{ lastAssignedAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+    });
+    if (!rep) {
+      return null;
+    }
+
+    // Only take the rep if nobody assigned them since we looked
+    const claimed = await prisma.salesRep.updateMany({
+      where: { id: rep.id, lastAssignedAt: rep.lastAssignedAt },
+      data: { lastAssignedAt: new Date() },
+    });
+    if (claimed.count > 0) {
+      return rep;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pick a rep for the caller and tell the browser who they're being connected to.
+ */
+export async function startTransfer(sessionId: string): Promise<TransferTarget | null> {
+  const rep = await pickRep();
+  if (!rep) {
+    await reportTransferFailed(sessionId, null, 'no_rep_available');
+    return null;
+  }
+
+  console.log(`Transferring session ${sessionId} to ${rep.name}`);
+  await publishEvent(sessionId, 'transfer_started', { repName: rep.name });
+  return rep;
+}
+
+export async function reportTransferConnected(sessionId: string, repId: string) {
+  const rep = await prisma.salesRep.findUnique({ where: { id: repId } });
+  await publishEvent(sessionId, 'transfer_connected', { repName: rep?.name || 'our team' });
+}
+
+/**
+ * `reason` is 'no_rep_available' or the provider's outcome for the rep's leg
+ * (busy, no-answer, ...).
+ */
+export async function reportTransferFailed(sessionId: string, repId: string | null, reason: string) {
+  const rep = repId ? await prisma.salesRep.findUnique({ where: { id: repId } }) : null;
+  const message = rep
+    ? `${rep.name} couldn't pick up - someone from our team will call you back soon.`
+    : 'Everyone on our team is busy right now - someone will call you back soon.';
+
+  console.warn(`Transfer for session ${sessionId} failed: ${reason}`);
+  await publishEvent(sessionId, 'transfer_failed', {
+    ...(rep && { repName: rep.name }),
+    reason,
+    message,
+  });
+}
+
+export async function getRep(id: string): Promise<SalesRep | null> {
+  return prisma.salesRep.findUnique({ where: { id } });
+}
+
+export async function listReps(): Promise<SalesRep[]> {
+  return prisma.salesRep.findMany({ orderBy: { name: 'asc' } });
+}
+
+export async function addRep(name: string, phoneNumber: string): Promise<SalesRep> {
+  return prisma.salesRep.upsert({
+    where: { phoneNumber },
+    create: { name, phoneNumber },
+    update: { name },
+  });
+}
+
+/**
+ * Returns null if there's no such rep.
+ */
+export async function updateRep(
+  id: string,
+  data: { name?: string; available?: boolean }
+): Promise<SalesRep | null> {
+  const result = await prisma.salesRep.updateMany({ where: { id }, data });
+  return result.count > 0 ? getRep(id) : null;
+}
+
+/**
+ * Returns false if there's no such rep.
+ */
+export async function removeRep(id: string): Promise<boolean> {
+  const result = await prisma.salesRep.deleteMany({ where: { id } });
+  return result.count > 0;
+}
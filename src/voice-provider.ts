@@ -0,0 +1,320 @@
+import twilio from 'twilio';
+import crypto from 'crypto';
+import { config } from './config.js';
+import { callStateStore, CallProvider } from './call-state.js';
+import { createOutboundCall, getCall, endCall as endRetellCall } from './retell-client.js';
+import { createSessionRef, callbackBinding } from './signing.js';
+import { assertNotOnDoNotCallList } from './do-not-call.js';
+
+/**
+ * Provider-neutral progress of an outbound call.
+ */
+export type CallStatus =
+  | 'queued'
+  | 'ringing'
+  | 'answered'
+  // Picked up by an answering machine, which gets the voicemail drop
+  | 'voicemail'
+  | 'completed'
+  | 'busy'
+  | 'no-answer'
+  | 'failed'
+  | 'canceled';
+
+export interface PlaceCallParams {
+  sessionId: string;
+  toNumber: string;
+  /** Caller ID to show, from the local-presence pool */
+  fromNumber: string;
+  callerName: string;
+}
+
+export interface PlacedCall {
+  callId: string;
+  /** Status known once the call is placed, for providers that don't report early progress */
+  status?: CallStatus;
+}
+
+export interface CallStatusEvent {
+  callId: string;
+  status: CallStatus;
+  /** Provider-specific detail, e.g. Retell's disconnection_reason */
+  reason?: string;
+  /** Talk time, on the final status of a call that was answered */
+  durationSeconds?: number;
+}
+
+export type VoiceProviderName = CallProvider | 'fake';
+
+/**
+ * Seam between the callback flow and whoever actually dials the phone.
+ */
+export interface VoiceProvider {
+  readonly name: VoiceProviderName;
+  placeCall(params: PlaceCallParams): Promise<PlacedCall>;
+  endCall(callId: string): Promise<void>;
+  getStatus(callId: string): Promise<CallStatus>;
+  /** Map a provider webhook payload to a CallStatusEvent, or null if it isn't one */
+  normalizeStatusEvent(payload: unknown): CallStatusEvent | null;
+}
+
+export type CallStatusListener = (sessionId: string, event: CallStatusEvent) => void | Promise<void>;
+
+// ============================================================================
+// Twilio
+// ============================================================================
+
+const TWILIO_STATUSES: Record<string, CallStatus> = {
+  'queued': 'queued',
+  'initiated': 'queued',
+  'ringing': 'ringing',
+  'in-progress': 'answered',
+  'completed': 'completed',
+  'busy': 'busy',
+  'no-answer': 'no-answer',
+  'failed': 'failed',
+  'canceled': 'canceled',
+};
+
+export class TwilioVoiceProvider implements VoiceProvider {
+  readonly name = 'twilio';
+  private client: ReturnType<typeof twilio> | null = null;
+
+  // Created on first use so importing this module never needs credentials
+  private getClient() {
+    if (!this.client) {
+      this.client = twilio(config.twilio.accountSid, config.twilio.authToken);
+    }
+    return this.client;
+  }
+
+  async placeCall({ sessionId, toNumber, fromNumber }: PlaceCallParams): Promise<PlacedCall> {
+    // The callback's SID doesn't exist yet, so bind its ref to the number we dial
+    const sessionRef = createSessionRef(sessionId, callbackBinding(toNumber));
+
+    // Log Twilio config for debugging (mask sensitive data)
+    console.log('Twilio config check:', {
+      accountSid: config.twilio.accountSid ? `${config.twilio.accountSid.slice(0, 10)}...` : 'MISSING',
+      authToken: config.twilio.authToken ? `${config.twilio.authToken.slice(0, 8)}...` : 'MISSING',
+      phoneNumber: fromNumber || 'MISSING',
+      baseUrl: config.baseUrl,
+    });
+
+    await assertNotOnDoNotCallList(toNumber);
+
+    try {
+      const call = await this.getClient().calls.create({
+        to: toNumber,
+        from: fromNumber,
+        // Waits for the greeting to end before fetching the answer URL, so a
+        // voicemail drop starts after the beep
+        ...(config.voicemail.detection && { machineDetection: 'DetectMessageEnd' }),
+        url: `${config.baseUrl}/twilio/callback-answer?ref=${sessionRef}`,
+        statusCallback: `${config.baseUrl}/twilio/callback-status?ref=${sessionRef}`,
+        statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+        statusCallbackMethod: 'POST',
+      });
+
+      return { callId: call.sid };
+    } catch (error: unknown) {
+      const twilioError = error as { code?: number; status?: number; message?: string };
+      console.error('Twilio API error:', {
+        code: twilioError.code,
+        status: twilioError.status,
+        message: twilioError.message,
+      });
+      throw error;
+    }
+  }
+
+  async endCall(callId: string): Promise<void> {
+    await this.getClient().calls(callId).update({ status: 'completed' });
+  }
+
+  async getStatus(callId: string): Promise<CallStatus> {
+    const call = await this.getClient().calls(callId).fetch();
+    return TWILIO_STATUSES[call.status] || 'failed';
+  }
+
+  normalizeStatusEvent(payload: unknown): CallStatusEvent | null {
+    const { CallSid, CallStatus, CallDuration } = (payload || {}) as Record<string, string | undefined>;
+    const status = CallStatus && TWILIO_STATUSES[CallStatus];
+    if (!CallSid || !status) {
+      return null;
+    }
+    return {
+      callId: CallSid,
+      status,
+      ...(CallDuration && { durationSeconds: parseInt(CallDuration, 10) }),
+    };
+  }
+}
+
+// ============================================================================
+// Retell
+// ============================================================================
+
+// disconnection_reason values meaning no person ever came on the line
+const RETELL_DIAL_FAILURES: Record<string, CallStatus> = {
+  dial_busy: 'busy',
+  dial_no_answer: 'no-answer',
+  dial_failed: 'failed',
+  voicemail_reached: 'voicemail',
+};
+
+interface RetellStatusPayload {
+  event?: string;
+  call?: {
+    call_id?: string;
+    call_status?: string;
+    disconnection_reason?: string;
+    start_timestamp?: number;
+    end_timestamp?: number;
+  };
+}
+
+export class RetellVoiceProvider implements VoiceProvider {
+  readonly name = 'retell';
+
+  async placeCall({ sessionId, toNumber, fromNumber, callerName }: PlaceCallParams): Promise<PlacedCall> {
+    const call = await createOutboundCall({ toNumber, fromNumber, sessionId, callerName });
+
+    // The callback agent picks up the flow at the schedule step
+    await callStateStore.set({
+      callId: call.call_id,
+      provider: 'retell',
+      callerName,
+      sessionId,
+      step: 'schedule',
+      attempts: 0,
+    });
+
+    // Retell has no ringing webhook - a registered call is already dialing
+    return { callId: call.call_id, status: 'ringing' };
+  }
+
+  async endCall(callId: string): Promise<void> {
+    await endRetellCall(callId);
+  }
+
+  async getStatus(callId: string): Promise<CallStatus> {
+    const call = await getCall(callId);
+
+    switch (call.call_status) {
+      case 'registered':
+        return 'queued';
+      case 'ongoing':
+        return 'answered';
+      case 'ended':
+        return RETELL_DIAL_FAILURES[call.disconnection_reason || ''] || 'completed';
+      default:
+        return 'failed';
+    }
+  }
+
+  normalizeStatusEvent(payload: unknown): CallStatusEvent | null {
+    const { event, call } = (payload || {}) as RetellStatusPayload;
+    if (!call?.call_id) {
+      return null;
+    }
+
+    switch (event) {
+      case 'call_started':
+        return { callId: call.call_id, status: 'answered' };
+      case 'call_ended': {
+        const reason = call.disconnection_reason;
+        let status: CallStatus = (reason && RETELL_DIAL_FAILURES[reason]) || 'completed';
+        // An error before the call ever connected means nobody picked up
+        if (status === 'completed' && reason?.startsWith('error') && !call.start_timestamp) {
+          status = 'failed';
+        }
+        const durationSeconds = call.start_timestamp && call.end_timestamp
+          ? Math.round((call.end_timestamp - call.start_timestamp) / 1000)
+          : undefined;
+        return { callId: call.call_id, status, reason, durationSeconds };
+      }
+      default:
+        return null;
+    }
+  }
+}
+
+// ============================================================================
+// Fake - offline development and the call simulator
+// ============================================================================
+
+export interface FakeVoiceProviderOptions {
+  /** How every fake call ends up: 'answered', 'voicemail', 'busy', 'no-answer' or 'failed' */
+  outcome: CallStatus;
+  /** Delay between each simulated status change */
+  stepMs: number;
+  /** How long an answered call stays up before completing */
+  talkMs: number;
+}
+
+/**
+ * Pretends to dial: reports ringing and then the configured outcome on
+ * timers, the way a real provider's status webhooks would arrive.
+ */
+export class FakeVoiceProvider implements VoiceProvider {
+  readonly name = 'fake';
+  private readonly calls = new Map<string, { sessionId: string; status: CallStatus; timers: NodeJS.Timeout[] }>();
+
+  constructor(
+    private readonly options: FakeVoiceProviderOptions,
+    private readonly onStatus: CallStatusListener
+  ) {}
+
+  async placeCall({ sessionId, toNumber }: PlaceCallParams): Promise<PlacedCall> {
+    const callId = `FAKE${crypto.randomBytes(12).toString('hex')}`;
+    const { outcome, stepMs, talkMs } = this.options;
+
+    const call = { sessionId, status: 'queued' as CallStatus, timers: [] as NodeJS.Timeout[] };
+    this.calls.set(callId, call);
+
+    const schedule: Array<[number, CallStatus]> = [[stepMs, 'ringing'], [stepMs * 2, outcome]];
+    if (outcome === 'answered') {
+      schedule.push([stepMs * 2 + talkMs, 'completed']);
+    }
+
+    for (const [delay, status] of schedule) {
+      call.timers.push(setTimeout(() => this.report(callId, status), delay));
+    }
+
+    console.log(`Fake call ${callId} to ${toNumber} will be ${outcome}`);
+    return { callId };
+  }
+
+  async endCall(callId: string): Promise<void> {
+    const call = this.calls.get(callId);
+    if (!call) return;
+
+    call.timers.forEach(clearTimeout);
+    await this.report(callId, call.status === 'answered' ? 'completed' : 'canceled');
+  }
+
+  async getStatus(callId: string): Promise<CallStatus> {
+    return this.calls.get(callId)?.status || 'failed';
+  }
+
+  normalizeStatusEvent(): CallStatusEvent | null {
+    // Fake calls report through the listener, never through a webhook
+    return null;
+  }
+
+  private async report(callId: string, status: CallStatus) {
+    const call = this.calls.get(callId);
+    if (!call) return;
+
+    call.status = status;
+    if (!['queued', 'ringing', 'answered'].includes(status)) {
+      this.calls.delete(callId);
+    }
+
+    try {
+      await this.onStatus(call.sessionId, { callId, status });
+    } catch (error) {
+      console.error(`Error reporting fake call ${callId} status:`, error);
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import twilio from 'twilio';
+import { config } from './config.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Exact request body as received, captured by express.json() in server.ts
+      rawBody?: string;
+    }
+  }
+}
+
+// How far a Retell signature timestamp may drift from our clock
+const RETELL_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+// Signatures already accepted inside the tolerance window (digest -> expiry)
+const seenRetellSignatures = new Map<string, number>();
+
+export type SecurityEventType =
+  | 'twilio_signature_missing'
+  | 'twilio_signature_invalid'
+  | 'retell_signature_missing'
+  | 'retell_signature_invalid'
+  | 'retell_signature_stale'
+  | 'retell_signature_replayed'
+  | 'session_ref_invalid'
+  | 'socket_subscribe_denied'
+  | 'session_access_denied'
+  | 'admin_auth_failed'
+  | 'pair_code_guessing';
+
+/**
+ * Log a rejected request in a fixed, greppable shape so it can be alerted on
+ * separately from ordinary errors. Pass null for `req` when the rejection
+ * isn't tied to an HTTP request.
+ */
+export function logSecurityEvent(type: SecurityEventType, req: Request | null, details: Record<string, unknown> = {}) {
+  console.warn('[security]', JSON.stringify({
+    type,
+    ...(req && {
+      method: req.method,
+      path: req.originalUrl,
+      ip: req.ip,
+      userAgent: req.header('User-Agent'),
+    }),
+    ...details,
+    timestamp: new Date().toISOString(),
+  }));
+}
+
+/**
+ * Whether webhook signature checks are switched off for this process.
+ * The bypass is only honoured outside production.
+ */
+export function signatureBypassEnabled(): boolean {
+  return config.webhooks.skipSignatureValidation && config.nodeEnv !== 'production';
+}
+
+/**
+ * Reject any /twilio request that isn't signed with our auth token.
+ *
+ * Twilio signs the full public URL (including the query string) plus the
+ * POSTed form parameters, so we rebuild the URL from BASE_URL rather than
+ * trusting the Host header, which is rewritten behind proxies.
+ */
+export function verifyTwilioSignature(req: Request, res: Response, next: NextFunction) {
+  if (signatureBypassEnabled()) {
+    return next();
+  }
+
+  const signature = req.header('X-Twilio-Signature');
+  const url = `${config.baseUrl.replace(/\/$/, '')}${req.originalUrl}`;
+
+  if (!signature || !config.twilio.authToken) {
+    logSecurityEvent('twilio_signature_missing', req);
+    return res.status(403).type('text/plain').send('Forbidden');
+  }
+
+  if (!twilio.validateRequest(config.twilio.authToken, signature, url, req.body || {})) {
+    logSecurityEvent('twilio_signature_invalid', req);
+    return res.status(403).type('text/plain').send('Forbidden');
+  }
+
+  next();
+}
+
+/**
+ * Reject any /retell request that isn't signed with our Retell API key.
+ *
+ * Retell sends `X-Retell-Signature: v=<unix ms>,d=<hex digest>` where the
+ * digest is HMAC-SHA256(apiKey, rawBody + timestamp). Timestamps outside the
+ * tolerance window are refused as stale, and a digest we've already accepted
+ * is refused as a replay.
+ */
+export function verifyRetellSignature(req: Request, res: Response, next: NextFunction) {
+  if (signatureBypassEnabled()) {
+    return next();
+  }
+
+  const signature = req.header('X-Retell-Signature');
+
+  if (!signature || !config.retell.apiKey) {
+    logSecurityEvent('retell_signature_missing', req);
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const match = signature.match(/^v=(\d+),d=([0-9a-f]+)$/i);
+  if (!match) {
+    logSecurityEvent('retell_signature_invalid', req, { reason: 'malformed' });
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const timestamp = Number(match[1]);
+  const digest = match[2].toLowerCase();
+  const now = Date.now();
+
+  if (Math.abs(now - timestamp) > RETELL_SIGNATURE_TOLERANCE_MS) {
+    logSecurityEvent('retell_signature_stale', req, {
+      signedAt: new Date(timestamp).toISOString(),
+    });
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const body = req.rawBody ?? JSON.stringify(req.body ?? {});
+  const expected = crypto
+    .createHmac('sha256', config.retell.apiKey)
+    .update(body + timestamp)
+    .digest('hex');
+
+  if (!safeEqual(digest, expected)) {
+    logSecurityEvent('retell_signature_invalid', req, { reason: 'digest_mismatch' });
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  pruneSeenSignatures(now);
+  if (seenRetellSignatures.has(digest)) {
+    logSecurityEvent('retell_signature_replayed', req, {
+      signedAt: new Date(timestamp).toISOString(),
+    });
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  seenRetellSignatures.set(digest, timestamp + RETELL_SIGNATURE_TOLERANCE_MS);
+
+  next();
+}
+
+function pruneSeenSignatures(now: number) {
+  for (const [digest, expiresAt] of seenRetellSignatures) {
+    if (expiresAt < now) {
+      seenRetellSignatures.delete(digest);
+    }
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
@@ -1,5 +1,8 @@
 import { Server as HttpServer } from 'http';
 import { Server, Socket } from 'socket.io';
+import { isSessionOwner } from './session.js';
+import { verifySubscriptionToken, SubscriptionRole } from './signing.js';
+import { logSecurityEvent } from './webhook-auth.js';
 
 let io: Server | null = null;
 
@@ -18,12 +21,36 @@ export function initializeWebSocket(httpServer: HttpServer): Server {
   io.on('connection', (socket: Socket) => {
     console.log(`Client connected: ${socket.id}`);
 
-    socket.on('subscribe', (sessionId: string) => {
+    // Accepts a bare session ID (authorized by the browserToken cookie) or
+    // { sessionId, token } with a subscription token from POST /api/session
+    socket.on('subscribe', async (payload: string | { sessionId?: string; token?: string }) => {
+      const sessionId = typeof payload === 'string' ? payload : payload?.sessionId;
+      const token = typeof payload === 'string' ? undefined : payload?.token;
+
       if (!sessionId || typeof sessionId !== 'string') {
         socket.emit('error', { message: 'Invalid session ID' });
         return;
       }
 
+      let role: SubscriptionRole | null;
+      try {
+        role = await authorizeSubscription(socket, sessionId, token);
+      } catch (error) {
+        console.error('Error authorizing subscription:', error);
+        socket.emit('error', { message: 'Failed to subscribe' });
+        return;
+      }
+
+      if (!role) {
+        logSecurityEvent('socket_subscribe_denied', null, {
+          socketId: socket.id,
+          sessionId,
+          address: socket.handshake.address,
+        });
+        socket.emit('error', { message: 'Not authorized for this session' });
+        return;
+      }
+
       // Add socket to session room
       socket.join(`session:${sessionId}`);
 
@@ -33,8 +60,8 @@ export function initializeWebSocket(httpServer: HttpServer): Server {
       }
       sessionSockets.get(sessionId)!.add(socket.id);
 
-      console.log(`Socket ${socket.id} subscribed to session ${sessionId}`);
-      socket.emit('subscribed', { sessionId });
+      console.log(`Socket ${socket.id} subscribed to session ${sessionId} as ${role}`);
+      socket.emit('subscribed', { sessionId, role });
     });
 
     socket.on('unsubscribe', (sessionId: string) => {
@@ -68,6 +95,32 @@ export function initializeWebSocket(httpServer: HttpServer): Server {
   return io;
 }
 
+async function authorizeSubscription(
+  socket: Socket,
+  sessionId: string,
+  token: string | undefined
+): Promise<SubscriptionRole | null> {
+  const tokenRole = verifySubscriptionToken(token, sessionId);
+  if (tokenRole) {
+    return tokenRole;
+  }
+
+  const browserToken = readCookie(socket.handshake.headers.cookie, 'browserToken');
+  return (await isSessionOwner(sessionId, browserToken)) ? 'owner' : null;
+}
+
+function readCookie(header: string | undefined, name: string): string | undefined {
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
 export function emitToSession(sessionId: string, event: string, data: unknown): boolean {
   if (!io) {
     console.error('WebSocket server not initialized');